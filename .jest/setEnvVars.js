@@ -1,9 +1,18 @@
 // Set environment variables for testing
-process.env.PLANKA_BASE_URL = 'http://localhost:3333';
+//
+// The tests run against the in-process fake Planka (tests/fake-planka.ts),
+// which accepts these credentials. Set PLANKA_TEST_LIVE=true to run them
+// against the Planka instance at http://localhost:3333 instead.
+const live = process.env.PLANKA_TEST_LIVE === 'true';
+if (live) {
+    process.env.PLANKA_BASE_URL = 'http://localhost:3333';
+}
 process.env.PLANKA_AGENT_EMAIL = 'demo@demo.demo';
 process.env.PLANKA_AGENT_PASSWORD = 'demo';
 process.env.PLANKA_ADMIN_EMAIL = 'demo@demo.demo';
 process.env.PLANKA_ADMIN_USERNAME = 'demo';
+// Keep test runs out of the audit log unless a test sets its own
+delete process.env.PLANKA_AUDIT_LOG;
 
 // Check if the server is running before tests start
 const fetch = await import('node-fetch');
@@ -28,4 +37,6 @@ async function checkServerConnection() {
 }
 
 // Run the check
-await checkServerConnection(); 
\ No newline at end of file
+if (live) {
+    await checkServerConnection();
+}
@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Access control for the MCP Kanban tools
+ *
+ * Two settings decide which tools and actions the server advertises:
+ *
+ * - PLANKA_READ_ONLY=true only lets the server observe boards: mutating
+ *   actions are left out of the `action` enums, and `plankaRequest` refuses
+ *   every request that could change data before contacting Planka.
+ * - PLANKA_TOOLS_CONFIG holds a JSON allowlist (or the path to a JSON file)
+ *   that enables or disables whole tools and individual actions, e.g. to
+ *   stay under a client's tool limit or to forbid deleting boards.
+ *
+ * Both are applied when the tools are registered, so disallowed actions
+ * never appear in the schemas (the SDK rejects them during argument
+ * validation) and tools without any allowed action are not registered.
+ * A config naming a tool or action that does not exist is rejected, so a
+ * typo cannot silently enable or disable everything.
+ *
+ * Example PLANKA_TOOLS_CONFIG:
+ *
+ * {
+ *   "tools": {
+ *     "mcp_kanban_membership_manager": false,
+ *     "mcp_kanban_project_board_manager": { "exclude": ["delete_board"] },
+ *     "mcp_kanban_card_manager": { "actions": ["get_all", "get_details", "move"] }
+ *   }
+ * }
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+/**
+ * The actions of a tool, split by whether they change data
+ * @property {string[]} read - Actions that only read data
+ * @property {string[]} write - Actions that create, change or delete data
+ */
+export type ToolActions = {
+    readonly read: readonly string[];
+    readonly write: readonly string[];
+};
+
+/**
+ * The actions of every tool the server registers
+ */
+export const TOOL_ACTIONS = {
+    mcp_kanban_project_board_manager: {
+        read: [
+            "get_projects",
+            "get_project",
+            "get_boards",
+            "get_board",
+            "get_board_summary",
+        ],
+        write: ["create_board", "update_board", "delete_board"],
+    },
+    mcp_kanban_list_manager: {
+        read: ["get_all", "get_one"],
+        write: ["create", "update", "delete"],
+    },
+    mcp_kanban_card_manager: {
+        read: ["get_all", "get_one", "get_details", "get_members"],
+        write: [
+            "create",
+            "update",
+            "move",
+            "duplicate",
+            "delete",
+            "create_with_tasks",
+            "add_member",
+            "remove_member",
+            "assign_to_me",
+        ],
+    },
+    mcp_kanban_stopwatch: {
+        read: ["get"],
+        write: ["start", "stop", "reset"],
+    },
+    mcp_kanban_label_manager: {
+        read: ["get_all"],
+        write: ["create", "update", "delete", "add_to_card", "remove_from_card"],
+    },
+    mcp_kanban_task_manager: {
+        read: ["get_all", "get_one", "get_task"],
+        write: [
+            "create",
+            "batch_create",
+            "update",
+            "delete",
+            "create_task",
+            "update_task",
+            "complete_task",
+            "delete_task",
+            "create_tasklist_with_tasks",
+        ],
+    },
+    mcp_kanban_comment_manager: {
+        read: ["get_all", "get_one"],
+        write: ["create", "update", "delete"],
+    },
+    mcp_kanban_membership_manager: {
+        read: ["get_all", "get_one"],
+        write: ["create", "update", "delete"],
+    },
+    mcp_kanban_workflow: {
+        read: [],
+        write: [
+            "start_working",
+            "mark_completed",
+            "move_to_testing",
+            "move_to_done",
+        ],
+    },
+    mcp_kanban_audit_log: {
+        read: ["get_recent"],
+        write: [],
+    },
+    mcp_kanban_undo: {
+        read: ["get_history"],
+        write: ["undo"],
+    },
+    mcp_kanban_search_cards: {
+        read: ["search"],
+        write: [],
+    },
+    mcp_kanban_attachment_manager: {
+        read: ["get_all", "download"],
+        write: ["upload", "delete"],
+    },
+} as const satisfies Record<string, ToolActions>;
+
+export type ToolName = keyof typeof TOOL_ACTIONS;
+
+/**
+ * The actions of a tool, e.g. "get_all" | "create" for a list manager
+ */
+export type ToolAction<T extends ToolName> =
+    | typeof TOOL_ACTIONS[T]["read"][number]
+    | typeof TOOL_ACTIONS[T]["write"][number];
+
+/**
+ * Schema for the settings of one tool: `true`/`false` to enable or disable
+ * it, or an object limiting its actions
+ * @property {string[]} [actions] - The only actions to allow
+ * @property {string[]} [exclude] - Actions to remove
+ */
+const ToolConfigSchema = z.union([
+    z.boolean(),
+    z.object({
+        actions: z.array(z.string()).optional(),
+        exclude: z.array(z.string()).optional(),
+    }),
+]);
+
+/**
+ * Schema for the tools config
+ * @property {boolean} [enableOtherTools] - Whether tools missing from `tools` are registered (default: true)
+ * @property {Record<string, ToolConfig>} [tools] - Settings per tool name
+ */
+const ToolsConfigSchema = z.object({
+    enableOtherTools: z.boolean().optional(),
+    tools: z.record(ToolConfigSchema).optional(),
+});
+
+type ToolsConfig = z.infer<typeof ToolsConfigSchema>;
+
+// Requests that never change data in Planka
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+let toolsConfig: ToolsConfig | null = null;
+
+function isToolName(name: string): name is ToolName {
+    return Object.hasOwn(TOOL_ACTIONS, name);
+}
+
+// Rejects tools and actions that do not exist, e.g. because of a typo
+function checkToolsConfig(config: ToolsConfig) {
+    for (const [toolName, toolConfig] of Object.entries(config.tools ?? {})) {
+        if (!isToolName(toolName)) {
+            throw new Error(
+                `Unknown tool "${toolName}". Expected one of: ${
+                    Object.keys(TOOL_ACTIONS).join(", ")
+                }`,
+            );
+        }
+        if (typeof toolConfig !== "object") {
+            continue;
+        }
+        const { read, write }: ToolActions = TOOL_ACTIONS[toolName];
+        const unknownAction = [
+            ...toolConfig.actions ?? [],
+            ...toolConfig.exclude ?? [],
+        ].find((action) => !read.includes(action) && !write.includes(action));
+        if (unknownAction) {
+            throw new Error(
+                `Unknown action "${unknownAction}" for ${toolName}`,
+            );
+        }
+    }
+}
+
+function loadToolsConfig(): ToolsConfig {
+    if (toolsConfig) {
+        return toolsConfig;
+    }
+
+    const value = process.env.PLANKA_TOOLS_CONFIG?.trim();
+    if (!value) {
+        toolsConfig = {};
+        return toolsConfig;
+    }
+
+    try {
+        // Inline JSON or the path to a JSON file
+        const json = value.startsWith("{") ? value : readFileSync(value, "utf8");
+        const config = ToolsConfigSchema.parse(JSON.parse(json));
+        checkToolsConfig(config);
+        toolsConfig = config;
+    } catch (error) {
+        throw new Error(
+            `Failed to load tools config from PLANKA_TOOLS_CONFIG: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+    return toolsConfig;
+}
+
+/**
+ * Checks whether the server runs in read-only mode (PLANKA_READ_ONLY)
+ *
+ * @returns {boolean} True if mutating actions and requests are disabled
+ */
+export function isReadOnly(): boolean {
+    const value = process.env.PLANKA_READ_ONLY?.trim().toLowerCase();
+    return value === "true" || value === "1" || value === "yes";
+}
+
+/**
+ * Returns the actions a tool may advertise in its `action` enum
+ *
+ * @param {ToolName} toolName - The name the tool is registered under
+ * @returns {[ToolAction<T>, ...ToolAction<T>[]] | null} The allowed actions, read actions first, or null if the tool should not be registered
+ * @throws {Error} If the tools config is invalid or names a tool or action that does not exist
+ */
+export function allowedActions<T extends ToolName>(
+    toolName: T,
+): [ToolAction<T>, ...ToolAction<T>[]] | null {
+    const config = loadToolsConfig();
+    const toolConfig = config.tools?.[toolName] ??
+        (config.enableOtherTools ?? true);
+    if (toolConfig === false) {
+        return null;
+    }
+
+    const { read, write }: ToolActions = TOOL_ACTIONS[toolName];
+    const allowed = (isReadOnly() ? read : [...read, ...write]).filter((
+        action,
+    ) =>
+        typeof toolConfig !== "object" ||
+        ((!toolConfig.actions || toolConfig.actions.includes(action)) &&
+            !toolConfig.exclude?.includes(action))
+    );
+    return allowed.length > 0
+        ? allowed as [ToolAction<T>, ...ToolAction<T>[]]
+        : null;
+}
+
+/**
+ * Checks whether a tool action is registered, e.g. before suggesting it
+ *
+ * @param {ToolName} toolName - The name of the tool
+ * @param {ToolAction<T>} action - The action
+ * @returns {boolean} True if the tool is registered with this action
+ */
+export function isActionAllowed<T extends ToolName>(
+    toolName: T,
+    action: ToolAction<T>,
+): boolean {
+    return allowedActions(toolName)?.includes(action) ?? false;
+}
+
+/**
+ * Checks whether an HTTP method only reads data
+ *
+ * @param {string} method - The HTTP method
+ * @returns {boolean} True for GET, HEAD and OPTIONS
+ */
+export function isReadMethod(method: string): boolean {
+    return READ_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Checks whether a Planka request is allowed in the current mode
+ *
+ * @param {string} method - The HTTP method of the request
+ * @returns {boolean} False if the server is read-only and the request could change data
+ */
+export function isRequestAllowed(method: string): boolean {
+    return !isReadOnly() || isReadMethod(method);
+}
@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Audit log of the changes made through the server
+ *
+ * When PLANKA_AUDIT_LOG names a file, every request that could change data
+ * (POST, PATCH, DELETE, ...) is appended to it as one JSON line. An entry
+ * records when the request was made, the tool call that made it, the request
+ * itself, the IDs it touched and Planka's response status, so the changes an
+ * agent made on a board can be reviewed afterwards. The log is off unless
+ * PLANKA_AUDIT_LOG is set.
+ *
+ * The tool arguments are logged without inline file contents, and long
+ * strings are cut short, so uploads do not end up in the log.
+ *
+ * The log is only ever appended to. Dry runs and requests rejected in
+ * read-only mode never reach Planka and are not logged.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+/**
+ * The tool call a request was made for
+ * @property {string} tool - The name of the tool
+ * @property {string} [action] - The action the tool was called with
+ * @property {Record<string, unknown>} args - The arguments of the call
+ * @property {string} [sessionId] - The MCP session of the call, if the transport has sessions
+ */
+export type AuditContext = {
+    tool: string;
+    action?: string;
+    args: Record<string, unknown>;
+    sessionId?: string;
+};
+
+/**
+ * One line of the audit log
+ * @property {string} timestamp - When the request completed (ISO 8601)
+ * @property {string | null} tool - The tool that made the request, if any
+ * @property {string | null} action - The action of the tool call, if any
+ * @property {Record<string, unknown> | null} args - The arguments of the tool call, if any
+ * @property {string} method - The HTTP method
+ * @property {string} path - The request path
+ * @property {Record<string, string>} targets - IDs of the records the request touched, e.g. cardId and boardId
+ * @property {number | null} status - The HTTP status, or null if Planka never answered
+ * @property {string} [error] - Why the request failed
+ */
+export type AuditEntry = {
+    timestamp: string;
+    tool: string | null;
+    action: string | null;
+    args: Record<string, unknown> | null;
+    method: string;
+    path: string;
+    targets: Record<string, string>;
+    status: number | null;
+    error?: string;
+};
+
+// Parent references copied from the records Planka returns
+const TARGET_KEYS = ["projectId", "boardId", "listId", "cardId", "taskListId"];
+
+// Arguments that hold file contents, logged as their length only
+const CONTENT_KEYS = ["content"];
+
+// Longer string arguments, e.g. descriptions, are cut short
+const MAX_ARG_LENGTH = 500;
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+// Appends are chained so lines never interleave and reads see every entry
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Returns the path of the audit log
+ *
+ * @returns {string | null} The absolute path, or null if the log is turned off
+ */
+export function getAuditLogPath(): string | null {
+    const value = process.env.PLANKA_AUDIT_LOG?.trim();
+    if (!value || ["false", "off", "0"].includes(value)) {
+        return null;
+    }
+    return resolve(value);
+}
+
+/**
+ * Wraps a tool handler so the requests it makes are logged with the tool
+ * call they belong to
+ *
+ * @param {string} tool - The name the tool is registered under
+ * @param {(args: A) => Promise<R>} handler - The tool handler
+ * @returns {(args: A, extra?: { sessionId?: string }) => Promise<R>} The wrapped handler, taking the request details the SDK passes to tool handlers
+ */
+export function withAuditContext<A extends { action?: string }, R>(
+    tool: string,
+    handler: (args: A) => Promise<R>,
+): (args: A, extra?: { sessionId?: string }) => Promise<R> {
+    return (args, extra) =>
+        auditStorage.run(
+            {
+                tool,
+                action: args.action,
+                args,
+                ...extra?.sessionId ? { sessionId: extra.sessionId } : {},
+            },
+            () => handler(args),
+        );
+}
+
+/**
+ * Returns the tool call the current request is made for
+ *
+ * @returns {AuditContext | undefined} The tool call, or undefined outside of tool calls
+ */
+export function getAuditContext(): AuditContext | undefined {
+    return auditStorage.getStore();
+}
+
+function truncateArg(value: unknown): unknown {
+    if (typeof value === "string" && value.length > MAX_ARG_LENGTH) {
+        return `${value.slice(0, MAX_ARG_LENGTH)}... [${
+            value.length - MAX_ARG_LENGTH
+        } more characters]`;
+    }
+    if (Array.isArray(value)) {
+        return value.map(truncateArg);
+    }
+    if (typeof value === "object" && value !== null) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, truncateArg(item)]),
+        );
+    }
+    return value;
+}
+
+// The tool arguments as logged: file contents are replaced by their length
+function loggedArgs(args: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(args).map(([key, value]) => [
+            key,
+            CONTENT_KEYS.includes(key) && typeof value === "string"
+                ? `[${value.length} characters omitted]`
+                : truncateArg(value),
+        ]),
+    );
+}
+
+// "task-lists" -> "taskListId"
+function idKey(type: string): string {
+    const camelCase = type.replace(/-(\w)/g, (_, c) => c.toUpperCase());
+    return `${camelCase.replace(/s$/, "")}Id`;
+}
+
+// IDs from the path, e.g. /api/cards/1/card-labels/labelId:2 gives
+// { cardId: "1", labelId: "2" }
+function pathTargets(path: string): Record<string, string> {
+    const segments = path.replace(/^\/api\//, "").split("?")[0].split("/");
+    const targets: Record<string, string> = {};
+    for (let i = 0; i + 1 < segments.length; i += 2) {
+        const [type, id] = [segments[i], segments[i + 1]];
+        const [key, value] = id.includes(":")
+            ? id.split(":", 2)
+            : [idKey(type), id];
+        targets[key] = value;
+    }
+    return targets;
+}
+
+function responseTargets(path: string, response: unknown) {
+    const item = (response as any)?.item;
+    const targets: Record<string, string> = {};
+    if (typeof item !== "object" || item === null) {
+        return targets;
+    }
+    for (const key of TARGET_KEYS) {
+        if (typeof item[key] === "string") {
+            targets[key] = item[key];
+        }
+    }
+    // POST [/api/{parentType}/{parentId}]/{type} creates a record
+    const segments = path.replace(/^\/api\//, "").split("?")[0].split("/");
+    if (typeof item.id === "string" && segments.length % 2 === 1) {
+        targets[idKey(segments[segments.length - 1])] = item.id;
+    }
+    return targets;
+}
+
+/**
+ * Appends a request that could have changed data to the audit log
+ *
+ * Failures to write the log are reported on stderr but never fail the
+ * request, which Planka has already processed.
+ *
+ * @param {object} request - The request and its outcome
+ * @param {string} request.method - The HTTP method
+ * @param {string} request.path - The request path
+ * @param {number | null} request.status - The HTTP status, or null if Planka never answered
+ * @param {unknown} [request.response] - The response body
+ * @param {unknown} [request.error] - The error the request failed with
+ */
+export function recordMutation(request: {
+    method: string;
+    path: string;
+    status: number | null;
+    response?: unknown;
+    error?: unknown;
+}) {
+    const logPath = getAuditLogPath();
+    if (!logPath) {
+        return;
+    }
+
+    const context = getAuditContext();
+    const entry: AuditEntry = {
+        timestamp: new Date().toISOString(),
+        tool: context?.tool ?? null,
+        action: context?.action ?? null,
+        args: context ? loggedArgs(context.args) : null,
+        method: request.method,
+        path: request.path,
+        targets: {
+            ...pathTargets(request.path),
+            ...responseTargets(request.path, request.response),
+        },
+        status: request.status,
+        ...request.error !== undefined
+            ? {
+                error: request.error instanceof Error
+                    ? request.error.message
+                    : String(request.error),
+            }
+            : {},
+    };
+
+    pendingWrite = pendingWrite
+        .then(async () => {
+            await mkdir(dirname(logPath), { recursive: true });
+            await appendFile(logPath, `${JSON.stringify(entry)}\n`, "utf8");
+        })
+        .catch((error) => {
+            console.error(`Error writing audit log ${logPath}:`, error);
+        });
+}
+
+/**
+ * Reads every entry of the audit log, oldest first
+ *
+ * @returns {Promise<AuditEntry[]>} The entries, or an empty array if nothing was logged yet
+ */
+export async function readAuditLog(): Promise<AuditEntry[]> {
+    const logPath = getAuditLogPath();
+    if (!logPath) {
+        return [];
+    }
+
+    await pendingWrite;
+    let content: string;
+    try {
+        content = await readFile(logPath, "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split("\n")) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            entries.push(JSON.parse(line));
+        } catch {
+            // Skip a line cut short by a crash
+        }
+    }
+    return entries;
+}
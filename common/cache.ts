@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Snapshot cache for Planka read operations
+ *
+ * Planka returns whole object graphs from `/api/projects` (projects and their
+ * boards) and `/api/boards/:id` (lists, cards, labels, task lists, ...), and
+ * most read operations only need a slice of them. This module keeps those
+ * payloads for a short time so aggregated tools such as the board summary do
+ * not refetch the same snapshot once per list or card.
+ *
+ * Snapshots expire after PLANKA_CACHE_TTL_MS (default: 5000, 0 disables the
+ * cache). Concurrent reads of the same snapshot share one request, and the
+ * mutating operations invalidate every snapshot that references what they
+ * changed.
+ */
+
+import { plankaRequest } from "./utils.js";
+
+/**
+ * Raw Planka response with the related records grouped by type
+ */
+export type PlankaSnapshot = {
+    item?: any;
+    items?: any[];
+    included?: Record<string, any[]>;
+};
+
+/**
+ * Identifiers of a changed entity and its parents, used to find the
+ * snapshots that are stale after a mutation
+ */
+export type SnapshotReference = {
+    boardId?: string;
+    listId?: string;
+    cardId?: string;
+    labelId?: string;
+    taskListId?: string;
+    taskId?: string;
+};
+
+type CacheEntry = {
+    expiresAt: number;
+    snapshot: Promise<PlankaSnapshot>;
+    // Set once the request has completed
+    value?: PlankaSnapshot;
+};
+
+let projectsEntry: CacheEntry | null = null;
+const boardEntries = new Map<string, CacheEntry>();
+
+function getTtl(): number {
+    const ttl = Number(process.env.PLANKA_CACHE_TTL_MS ?? 5000);
+    return Number.isFinite(ttl) && ttl > 0 ? ttl : 0;
+}
+
+function isFresh(entry: CacheEntry | null | undefined): entry is CacheEntry {
+    return !!entry && entry.expiresAt > Date.now();
+}
+
+function createEntry(path: string, onError: () => void): CacheEntry {
+    const entry = { expiresAt: Date.now() + getTtl() } as CacheEntry;
+    entry.snapshot = (plankaRequest(path) as Promise<PlankaSnapshot>).then(
+        (snapshot) => {
+            entry.value = snapshot;
+            return snapshot;
+        },
+        (error) => {
+            // Never keep a failed request around
+            onError();
+            throw error;
+        },
+    );
+    return entry;
+}
+
+/**
+ * Returns the `/api/projects` snapshot (projects with their boards)
+ *
+ * @returns {Promise<PlankaSnapshot>} The cached or freshly fetched snapshot
+ */
+export async function getProjectsSnapshot(): Promise<PlankaSnapshot> {
+    if (!getTtl()) {
+        return plankaRequest("/api/projects") as Promise<PlankaSnapshot>;
+    }
+    if (!isFresh(projectsEntry)) {
+        const entry: CacheEntry = createEntry("/api/projects", () => {
+            if (projectsEntry === entry) {
+                projectsEntry = null;
+            }
+        });
+        projectsEntry = entry;
+    }
+    return projectsEntry.snapshot;
+}
+
+/**
+ * Returns the `/api/boards/:id` snapshot (the board with its lists, cards,
+ * labels, task lists and related records)
+ *
+ * @param {string} boardId - The ID of the board
+ * @returns {Promise<PlankaSnapshot>} The cached or freshly fetched snapshot
+ */
+export async function getBoardSnapshot(
+    boardId: string,
+): Promise<PlankaSnapshot> {
+    if (!getTtl()) {
+        return plankaRequest(`/api/boards/${boardId}`) as Promise<
+            PlankaSnapshot
+        >;
+    }
+    let entry = boardEntries.get(boardId);
+    if (!isFresh(entry)) {
+        const newEntry: CacheEntry = createEntry(
+            `/api/boards/${boardId}`,
+            () => {
+                if (boardEntries.get(boardId) === newEntry) {
+                    boardEntries.delete(boardId);
+                }
+            },
+        );
+        boardEntries.set(boardId, newEntry);
+        entry = newEntry;
+    }
+    return entry.snapshot;
+}
+
+/**
+ * Finds a fresh, fully loaded board snapshot in the cache without fetching
+ * anything
+ *
+ * @param {(snapshot: PlankaSnapshot) => boolean} predicate - Test for the wanted snapshot
+ * @returns {PlankaSnapshot | null} The matching snapshot, or null if none is cached
+ */
+export function findCachedBoardSnapshot(
+    predicate: (snapshot: PlankaSnapshot) => boolean,
+): PlankaSnapshot | null {
+    for (const entry of boardEntries.values()) {
+        if (isFresh(entry) && entry.value && predicate(entry.value)) {
+            return entry.value;
+        }
+    }
+    return null;
+}
+
+function includesId(
+    snapshot: PlankaSnapshot,
+    type: string,
+    id: string | undefined,
+): boolean {
+    return !!id &&
+        !!snapshot.included?.[type]?.some((record: any) => record?.id === id);
+}
+
+function referencesBoard(
+    boardId: string,
+    snapshot: PlankaSnapshot | undefined,
+    ref: SnapshotReference,
+): boolean {
+    if (ref.boardId === boardId) {
+        return true;
+    }
+    // A snapshot that is still loading cannot be checked, so treat it as stale
+    if (!snapshot) {
+        return true;
+    }
+    return includesId(snapshot, "lists", ref.listId) ||
+        includesId(snapshot, "cards", ref.cardId) ||
+        includesId(snapshot, "labels", ref.labelId) ||
+        includesId(snapshot, "taskLists", ref.taskListId) ||
+        includesId(snapshot, "tasks", ref.taskId);
+}
+
+/**
+ * Drops every cached board snapshot that references the changed entity
+ *
+ * @param {SnapshotReference} ref - Identifiers of the changed entity and its parents
+ */
+export function invalidateBoardSnapshots(ref: SnapshotReference) {
+    for (const [boardId, entry] of boardEntries) {
+        if (referencesBoard(boardId, entry.value, ref)) {
+            boardEntries.delete(boardId);
+        }
+    }
+}
+
+/**
+ * Drops the cached `/api/projects` snapshot, e.g. after boards were created,
+ * renamed or deleted
+ */
+export function invalidateProjectsSnapshot() {
+    projectsEntry = null;
+}
+
+/**
+ * Drops every cached snapshot
+ */
+export function clearSnapshotCache() {
+    projectsEntry = null;
+    boardEntries.clear();
+}
@@ -0,0 +1,352 @@
+/**
+ * @fileoverview Dry runs of mutating tool actions
+ *
+ * A tool called with `dryRun: true` runs its handler as usual, but every
+ * request that could change data is recorded instead of sent to Planka. The
+ * recorded requests (method, path and body) are reported next to the tool's
+ * result, so an agent or a human can review a batch of changes before
+ * running it for real.
+ *
+ * Reads still go to Planka. Each recorded request answers with a synthetic
+ * record built from the request body and, for updates, the record's current
+ * state, so multi-step actions keep going: a card created during a dry run
+ * gets an ID such as `dry-run-1`, and the task lists planned for it reference
+ * that ID.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { z } from "zod";
+
+/**
+ * A request that would have been sent to Planka
+ * @property {string} method - The HTTP method
+ * @property {string} path - The request path, starting with /api/
+ * @property {unknown} [body] - The request body
+ */
+export type PlannedRequest = {
+    method: string;
+    path: string;
+    body?: unknown;
+};
+
+// A record as Planka returns it
+type PlankaRecord = Record<string, unknown> & { id: string };
+
+type DryRun = {
+    plannedRequests: PlannedRequest[];
+    // Records read or planned during the dry run, by ID
+    records: Map<string, PlankaRecord>;
+};
+
+type ToolResult = {
+    content: { type: "text"; text: string }[];
+};
+
+const SYNTHETIC_ID_PREFIX = "dry-run-";
+
+// The parent type of the record types that are changed through their own
+// route (/api/{type}/{id}), which does not name the parent
+const PARENT_TYPES: Record<string, string> = {
+    "boards": "projects",
+    "lists": "boards",
+    "labels": "boards",
+    "board-memberships": "boards",
+    "cards": "lists",
+    "task-lists": "cards",
+    "comments": "cards",
+    "attachments": "cards",
+    "tasks": "task-lists",
+};
+
+// Record types that can be read with GET /api/{type}/{id}
+const READABLE_TYPES = ["projects", "boards", "lists", "cards", "task-lists"];
+
+const dryRunStorage = new AsyncLocalStorage<DryRun>();
+
+// Synthetic IDs are unique per process, so snapshots cached during one dry
+// run never answer for records of another
+let syntheticIdCount = 0;
+
+/**
+ * Schema for the `dryRun` parameter of the tools
+ */
+export const dryRunParameter = {
+    dryRun: z
+        .boolean()
+        .optional()
+        .describe(
+            "Report the Planka requests the action would make instead of changing anything",
+        ),
+};
+
+/**
+ * Checks whether the current call runs as a dry run
+ *
+ * @returns {boolean} True if mutating requests are recorded instead of sent
+ */
+export function isDryRun(): boolean {
+    return dryRunStorage.getStore() !== undefined;
+}
+
+/**
+ * Runs a function as a dry run
+ *
+ * @param {() => Promise<T>} fn - The function to run
+ * @returns {Promise<{result: T, plannedRequests: PlannedRequest[]}>} The function's result and the requests it would have made
+ */
+export async function runDryRun<T>(
+    fn: () => Promise<T>,
+): Promise<{ result: T; plannedRequests: PlannedRequest[] }> {
+    const dryRun: DryRun = { plannedRequests: [], records: new Map() };
+    const result = await dryRunStorage.run(dryRun, fn);
+    return { result, plannedRequests: dryRun.plannedRequests };
+}
+
+/**
+ * Wraps a tool handler so that calls with `dryRun: true` run as a dry run
+ * and report the planned requests in a second content item
+ *
+ * @param {(args: A) => Promise<ToolResult>} handler - The tool handler
+ * @returns {(args: A) => Promise<ToolResult>} The wrapped handler
+ */
+export function withDryRun<A extends { dryRun?: boolean }>(
+    handler: (args: A) => Promise<ToolResult>,
+): (args: A) => Promise<ToolResult> {
+    return async (args) => {
+        if (!args.dryRun) {
+            return handler(args);
+        }
+
+        const { result, plannedRequests } = await runDryRun(() =>
+            handler(args)
+        );
+        return {
+            content: [
+                ...result.content,
+                {
+                    type: "text",
+                    text: JSON.stringify({ dryRun: true, plannedRequests }),
+                },
+            ],
+        };
+    };
+}
+
+function isSyntheticId(id: string | undefined): boolean {
+    return !!id?.startsWith(SYNTHETIC_ID_PREFIX);
+}
+
+function pathSegments(path: string): string[] {
+    return path.replace(/^\/api\//, "").split("?")[0].split("/");
+}
+
+function isRecord(value: unknown): value is PlankaRecord {
+    return typeof value === "object" && value !== null &&
+        typeof (value as { id?: unknown }).id === "string";
+}
+
+// The key that references a parent of the given type, e.g. taskListId for
+// task-lists
+function parentKey(parentType: string): string {
+    const singular = parentType.replace(/s$/, "");
+    return `${
+        singular.replace(/-(\w)/g, (_, letter) => letter.toUpperCase())
+    }Id`;
+}
+
+// Nested routes name records after their parent: the memberships of a board
+// are board-memberships
+function recordType(type: string, parentType: string | undefined): string {
+    return type === "memberships" && parentType
+        ? `${parentType.replace(/s$/, "")}-${type}`
+        : type;
+}
+
+// Multipart bodies (uploads) are reported with their fields, and files by
+// name, type and size
+function describeBody(body: unknown): unknown {
+    if (!(body instanceof FormData)) {
+        return body;
+    }
+    return Object.fromEntries(
+        [...body.entries()].map(([name, value]) => [
+            name,
+            typeof value === "string"
+                ? value
+                : { name: value.name, type: value.type, size: value.size },
+        ]),
+    );
+}
+
+function withoutUndefined(body: unknown): Record<string, unknown> {
+    if (typeof body !== "object" || body === null) {
+        return {};
+    }
+    return Object.fromEntries(
+        Object.entries(body).filter(([, value]) => value !== undefined),
+    );
+}
+
+function rememberRecords(dryRun: DryRun, response: unknown) {
+    if (typeof response !== "object" || response === null) {
+        return;
+    }
+    const { item, items, included } = response as {
+        item?: unknown;
+        items?: unknown;
+        included?: unknown;
+    };
+    const records: unknown[] = [
+        item,
+        ...Array.isArray(items) ? items : [],
+        ...typeof included === "object" && included !== null
+            ? Object.values(included).flat()
+            : [],
+    ];
+    for (const record of records) {
+        if (isRecord(record)) {
+            dryRun.records.set(record.id, record);
+        }
+    }
+}
+
+/**
+ * Builds the record a planned request would have returned
+ *
+ * Fields the request does not set get neutral defaults, so the operations
+ * can validate the synthetic response like a real one. The parent comes from
+ * the route when it names one.
+ */
+function buildRecord(
+    type: string,
+    parent: { type: string; id: string } | undefined,
+    current: PlankaRecord | undefined,
+    body: Record<string, unknown>,
+): Record<string, unknown> {
+    const now = new Date().toISOString();
+    const parentType = parent?.type ?? PARENT_TYPES[type];
+    const record: Record<string, unknown> = {
+        name: "",
+        position: 65535,
+        createdAt: now,
+        ...parentType ? { [parentKey(parentType)]: "" } : {},
+        ...type === "cards"
+            ? {
+                type: "project",
+                description: null,
+                dueDate: null,
+                isCompleted: false,
+                stopwatch: null,
+            }
+            : {},
+        ...type === "tasks" ? { isCompleted: false } : {},
+        ...type === "board-memberships"
+            ? { role: "editor", canComment: null }
+            : {},
+        ...type === "attachments"
+            ? { type: "file", data: null, creatorUserId: "" }
+            : {},
+        ...type === "comments" ? { type: "commentCard", userId: "" } : {},
+        ...current,
+        ...parent ? { [parentKey(parent.type)]: parent.id } : {},
+        ...body,
+        updatedAt: now,
+    };
+    if (type === "comments" && typeof body.text === "string") {
+        const data = current?.data;
+        record.data = {
+            ...typeof data === "object" && data !== null ? data : {},
+            text: body.text,
+        };
+    }
+    return record;
+}
+
+async function findRecord(
+    dryRun: DryRun,
+    type: string,
+    id: string,
+    read: (path: string) => Promise<unknown>,
+): Promise<PlankaRecord | undefined> {
+    if (!dryRun.records.has(id) && READABLE_TYPES.includes(type)) {
+        try {
+            // Remembered by the dry run like every other read
+            await read(`/api/${type}/${id}`);
+        } catch {
+            // Fall back to a record built from the request alone
+        }
+    }
+    return dryRun.records.get(id);
+}
+
+/**
+ * Handles a Planka request made during a dry run
+ *
+ * Reads of real records are sent (and remembered, so later updates can
+ * return complete records), reads of synthetic records are answered from
+ * the dry run, and everything else is recorded and answered with a
+ * synthetic record.
+ *
+ * @param {PlannedRequest} request - The request to handle
+ * @param {() => Promise<unknown>} send - Sends the request to Planka
+ * @param {(path: string) => Promise<unknown>} read - Makes a GET request to Planka
+ * @returns {Promise<unknown>} The real or synthetic response
+ */
+export async function handleDryRunRequest(
+    request: PlannedRequest,
+    send: () => Promise<unknown>,
+    read: (path: string) => Promise<unknown>,
+): Promise<unknown> {
+    const dryRun = dryRunStorage.getStore();
+    if (!dryRun) {
+        return send();
+    }
+
+    const segments = pathSegments(request.path);
+    const method = request.method.toUpperCase();
+    if (method === "GET" || method === "HEAD" || method === "OPTIONS") {
+        if (!segments.some(isSyntheticId)) {
+            const response = await send();
+            rememberRecords(dryRun, response);
+            return response;
+        }
+        // Records created during the dry run have no related records yet
+        return segments.length === 2
+            ? { item: dryRun.records.get(segments[1]), included: {} }
+            : { items: [], included: {} };
+    }
+
+    const requestBody = describeBody(request.body);
+    dryRun.plannedRequests.push(
+        requestBody === undefined
+            ? { method, path: request.path }
+            : { method, path: request.path, body: requestBody },
+    );
+
+    const body = withoutUndefined(requestBody);
+    // POST [/api/{parentType}/{parentId}]/{type} creates a record, anything
+    // else targets an existing one: [/api/{parentType}/{parentId}]/{type}/{id}
+    const creates = method === "POST" && segments.length % 2 === 1;
+    const typeIndex = segments.length - (creates ? 1 : 2);
+    const parent = typeIndex >= 2
+        ? { type: segments[typeIndex - 2], id: segments[typeIndex - 1] }
+        : undefined;
+    const type = recordType(segments[typeIndex], parent?.type);
+
+    if (creates) {
+        const record = {
+            ...buildRecord(type, parent, undefined, body),
+            id: `${SYNTHETIC_ID_PREFIX}${++syntheticIdCount}`,
+        };
+        dryRun.records.set(record.id, record);
+        return { item: record, included: {} };
+    }
+
+    const id = segments[segments.length - 1];
+    const current = await findRecord(dryRun, type, id, read);
+    const record = { ...buildRecord(type, parent, current, body), id };
+    if (method !== "DELETE") {
+        dryRun.records.set(id, record);
+    }
+    return { item: record, included: {} };
+}
@@ -60,6 +60,17 @@ export function isPlankaError(error: unknown): error is PlankaError {
   return error instanceof PlankaError;
 }
 
+/**
+ * Checks whether an error, or the error it wraps, is a Planka 404
+ */
+export function isResourceNotFoundError(error: unknown): boolean {
+  if (error instanceof PlankaResourceNotFoundError) {
+    return true;
+  }
+  return error instanceof Error && error.cause !== undefined &&
+    isResourceNotFoundError(error.cause);
+}
+
 export function createPlankaError(status: number, response: any): PlankaError {
   switch (status) {
     case 401:
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Recorded Planka responses for reproducible runs
+ *
+ * With PLANKA_FIXTURE_MODE=record every request made to Planka is sent as
+ * usual and the request/response pair is written to PLANKA_FIXTURE_FILE
+ * (default: fixtures/planka.json). With PLANKA_FIXTURE_MODE=replay nothing is
+ * sent: each request is answered from the file, so a regression seen against
+ * one Planka version can be reproduced without that Planka.
+ *
+ * Fixtures are meant to be committed, so access tokens, passwords and other
+ * secrets are replaced with placeholders and email addresses with stable
+ * `user-<hash>@example.invalid` addresses before anything is written.
+ *
+ * Replay answers requests with the same method and path in the order they
+ * were recorded. Once the recorded responses of a read are used up, the last
+ * one keeps answering, as reads are repeated by caches and polling; a write
+ * without a recorded response fails.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { z } from "zod";
+import { isReadMethod } from "./access.js";
+
+/**
+ * One recorded request and Planka's response
+ * @property {string} method - The HTTP method
+ * @property {string} path - The request path, including the query string
+ * @property {unknown} [requestBody] - The scrubbed request body
+ * @property {number} status - The HTTP status
+ * @property {Record<string, string>} headers - The response headers the server reads
+ * @property {unknown} body - The scrubbed response body
+ * @property {"base64"} [encoding] - Set if the body is a binary file, encoded as base64
+ */
+export type Fixture = {
+    method: string;
+    path: string;
+    requestBody?: unknown;
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+    encoding?: "base64";
+};
+
+type FixtureMode = "record" | "replay";
+
+type Replay = {
+    fixtures: Fixture[];
+    used: Set<Fixture>;
+};
+
+// Response headers needed to parse a replayed response like the real one
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+// Keys whose string values are never written to a fixture
+const SECRET_KEY = /password|token|secret|api[-_]?key/i;
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// POST /api/access-tokens answers with the token as the whole item
+const AccessTokenResponseSchema = z.object({ item: z.string() }).passthrough();
+
+const recordings = new Map<string, Fixture[]>();
+const replays = new Map<string, Promise<Replay>>();
+
+// Writes are chained so a fixture file is never written twice at once
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Reads the fixture mode from PLANKA_FIXTURE_MODE
+ *
+ * @returns {FixtureMode | null} "record", "replay", or null if requests go to Planka as usual
+ * @throws {Error} If the mode is not recognized
+ */
+export function getFixtureMode(): FixtureMode | null {
+    const value = process.env.PLANKA_FIXTURE_MODE?.trim().toLowerCase();
+    if (!value || ["false", "off", "0"].includes(value)) {
+        return null;
+    }
+    if (value !== "record" && value !== "replay") {
+        throw new Error(
+            `Invalid PLANKA_FIXTURE_MODE "${value}": expected "record" or "replay"`,
+        );
+    }
+    return value;
+}
+
+/**
+ * Returns the path of the fixture file
+ *
+ * @returns {string} The absolute path of PLANKA_FIXTURE_FILE (default: fixtures/planka.json)
+ */
+export function getFixtureFile(): string {
+    return resolve(
+        process.env.PLANKA_FIXTURE_FILE?.trim() || "fixtures/planka.json",
+    );
+}
+
+function scrubEmail(email: string): string {
+    const hash = createHash("sha256").update(email.toLowerCase()).digest(
+        "hex",
+    );
+    return `user-${hash.slice(0, 8)}@example.invalid`;
+}
+
+/**
+ * Replaces secrets and email addresses in a request or response body
+ *
+ * @param {unknown} value - The body to scrub
+ * @param {string} [key] - The key the value is stored under
+ * @returns {unknown} A scrubbed copy of the body
+ */
+export function scrubFixtureValue(value: unknown, key?: string): unknown {
+    if (typeof value === "string") {
+        return key && SECRET_KEY.test(key)
+            ? "<redacted>"
+            : value.replace(EMAIL, scrubEmail);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => scrubFixtureValue(item));
+    }
+    if (typeof value === "object" && value !== null) {
+        return Object.fromEntries(
+            Object.entries(value).map(([entryKey, entryValue]) => [
+                entryKey,
+                scrubFixtureValue(entryValue, entryKey),
+            ]),
+        );
+    }
+    return value;
+}
+
+function requestPath(url: string): string {
+    const { pathname, search } = new URL(url);
+    return `${pathname}${search}`;
+}
+
+function parseRequestBody(body: RequestInit["body"]): unknown {
+    if (body instanceof FormData) {
+        // Uploaded file contents are not recorded
+        return Object.fromEntries(
+            [...body.entries()].map(([name, value]) => [
+                name,
+                typeof value === "string" ? value : `<file ${value.name}>`,
+            ]),
+        );
+    }
+    if (typeof body !== "string") {
+        return undefined;
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+async function recordFixture(
+    url: string,
+    init: RequestInit,
+    response: Response,
+) {
+    const method = (init.method || "GET").toUpperCase();
+    const path = requestPath(url);
+    const contentType = response.headers.get("content-type") ?? "";
+    // Downloaded files are kept byte for byte
+    const isBinary = !/json|text|xml|javascript/.test(contentType) &&
+        contentType !== "";
+    const content = Buffer.from(await response.clone().arrayBuffer());
+    const text = content.toString(isBinary ? "base64" : "utf8");
+    let body: unknown = text;
+    if (contentType.includes("application/json")) {
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Keep the text Planka sent
+        }
+    }
+    if (method === "POST" && path.startsWith("/api/access-tokens")) {
+        const tokenResponse = AccessTokenResponseSchema.safeParse(body);
+        if (tokenResponse.success) {
+            body = { ...tokenResponse.data, item: "<token>" };
+        }
+    }
+
+    const requestBody = parseRequestBody(init.body);
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) {
+            headers[name] = value;
+        }
+    }
+
+    const file = getFixtureFile();
+    const fixtures = recordings.get(file) ?? [];
+    recordings.set(file, fixtures);
+    fixtures.push({
+        method,
+        path,
+        ...requestBody === undefined
+            ? {}
+            : { requestBody: scrubFixtureValue(requestBody) },
+        status: response.status,
+        headers,
+        ...isBinary
+            ? { body, encoding: "base64" as const }
+            : { body: scrubFixtureValue(body) },
+    });
+
+    // The whole file is rewritten so it is valid JSON after every request
+    const fileContent = `${JSON.stringify({ fixtures }, null, 2)}\n`;
+    pendingWrite = pendingWrite
+        .then(async () => {
+            await mkdir(dirname(file), { recursive: true });
+            await writeFile(file, fileContent, "utf8");
+        })
+        .catch((error) => {
+            console.error(`Error writing fixture file ${file}:`, error);
+        });
+    await pendingWrite;
+}
+
+async function loadReplay(file: string): Promise<Replay> {
+    let content: string;
+    try {
+        content = await readFile(file, "utf8");
+    } catch (error) {
+        throw new Error(
+            `Cannot replay Planka fixtures from ${file}: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+    const { fixtures } = JSON.parse(content) as { fixtures: Fixture[] };
+    return { fixtures, used: new Set() };
+}
+
+async function replayFixture(
+    url: string,
+    init: RequestInit,
+): Promise<Response> {
+    const file = getFixtureFile();
+    if (!replays.has(file)) {
+        const replay = loadReplay(file);
+        // Allow fixing a missing file without restarting the server
+        replay.catch(() => replays.delete(file));
+        replays.set(file, replay);
+    }
+    const { fixtures, used } = await replays.get(file)!;
+
+    const method = (init.method || "GET").toUpperCase();
+    const path = requestPath(url);
+    const matching = fixtures.filter((fixture) =>
+        fixture.method === method && fixture.path === path
+    );
+    const fixture = matching.find((candidate) => !used.has(candidate)) ??
+        (isReadMethod(method) ? matching[matching.length - 1] : undefined);
+    if (!fixture) {
+        throw new Error(
+            `No recorded Planka response for ${method} ${path} in ${file}`,
+        );
+    }
+    used.add(fixture);
+
+    // Status codes such as 204 do not allow a body
+    const hasBody = fixture.status !== 204 && fixture.status !== 304;
+    let body: string | Buffer | null = null;
+    if (hasBody) {
+        body = fixture.encoding === "base64"
+            ? Buffer.from(String(fixture.body), "base64")
+            : typeof fixture.body === "string"
+            ? fixture.body
+            : JSON.stringify(fixture.body);
+    }
+    return new Response(body, {
+        status: fixture.status,
+        headers: fixture.headers,
+    });
+}
+
+/**
+ * Sends a request to Planka, recording or replaying it in fixture mode
+ *
+ * Used instead of `fetch` for every Planka request, including the login.
+ *
+ * @param {string} url - The request URL
+ * @param {RequestInit} init - The request options
+ * @returns {Promise<Response>} Planka's response, or the recorded one in replay mode
+ */
+export async function fetchPlanka(
+    url: string,
+    init: RequestInit,
+): Promise<Response> {
+    const mode = getFixtureMode();
+    if (mode === "replay") {
+        return replayFixture(url, init);
+    }
+
+    const response = await fetch(url, init);
+    if (mode === "record") {
+        await recordFixture(url, init, response);
+    }
+    return response;
+}
@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Location resolver for Planka entities
+ *
+ * Many Planka endpoints are scoped by board, but agents usually only know a
+ * list, card, task list or task ID. This module resolves where an entity lives
+ * (task → task list → card → list → board → project) without crawling every
+ * project and board. It keeps an index of list → board, board → project,
+ * task list → card and task → task list, which never change for an existing
+ * entity, and falls back to cached board snapshots and single lookups
+ * (`/api/lists/:id`, `/api/cards/:id`, `/api/task-lists/:id`) when the index
+ * has no entry.
+ */
+
+import { plankaRequest } from "./utils.js";
+import {
+    isResourceNotFoundError,
+    PlankaResourceNotFoundError,
+} from "./errors.js";
+import {
+    findCachedBoardSnapshot,
+    getBoardSnapshot,
+    getProjectsSnapshot,
+    PlankaSnapshot,
+} from "./cache.js";
+
+/**
+ * A card with the list, board and project it belongs to
+ * @property {object} card - The card as returned by `/api/cards/:id`
+ * @property {object | null} list - The card's list
+ * @property {object} board - The card's board
+ * @property {object | null} project - The board's project
+ * @property {Record<string, any[]>} included - Related records of the card (task lists, tasks, card labels, card memberships, ...)
+ */
+export type CardContext = {
+    card: any;
+    list: any | null;
+    board: any;
+    project: any | null;
+    included: Record<string, any[]>;
+};
+
+const listBoardIds = new Map<string, string>();
+const boardProjectIds = new Map<string, string>();
+const taskListCardIds = new Map<string, string>();
+const taskTaskListIds = new Map<string, string>();
+
+/**
+ * Records the task lists and tasks of a card or board response in the index
+ *
+ * @param {Record<string, any[]>} [included] - The related records of the response
+ */
+export function indexTaskRecords(included?: Record<string, any[]>) {
+    for (const taskList of included?.taskLists ?? []) {
+        if (taskList?.id && taskList.cardId) {
+            taskListCardIds.set(taskList.id, taskList.cardId);
+        }
+    }
+    for (const task of included?.tasks ?? []) {
+        if (task?.id && task.taskListId) {
+            taskTaskListIds.set(task.id, task.taskListId);
+        }
+    }
+}
+
+/**
+ * Records the lists of a board snapshot (and the board's project) in the index
+ *
+ * @param {PlankaSnapshot} snapshot - A `/api/boards/:id` response
+ */
+export function indexBoardSnapshot(snapshot: PlankaSnapshot) {
+    const board = snapshot.item;
+    if (!board?.id) {
+        return;
+    }
+    if (board.projectId) {
+        boardProjectIds.set(board.id, board.projectId);
+    }
+    for (const list of snapshot.included?.lists ?? []) {
+        if (list?.id) {
+            listBoardIds.set(list.id, board.id);
+        }
+    }
+    indexTaskRecords(snapshot.included);
+}
+
+/**
+ * Removes a deleted list from the index
+ *
+ * @param {string} listId - The ID of the deleted list
+ */
+export function forgetList(listId: string) {
+    listBoardIds.delete(listId);
+}
+
+function snapshotHasRecord(
+    snapshot: PlankaSnapshot,
+    type: string,
+    id: string,
+): boolean {
+    return !!snapshot.included?.[type]?.some((record: any) => record?.id === id);
+}
+
+/**
+ * Resolves the board a list belongs to
+ *
+ * @param {string} listId - The ID of the list
+ * @returns {Promise<string>} The ID of the board containing the list
+ * @throws {PlankaResourceNotFoundError} If the list does not exist
+ */
+export async function resolveListBoardId(listId: string): Promise<string> {
+    const indexedBoardId = listBoardIds.get(listId);
+    if (indexedBoardId) {
+        return indexedBoardId;
+    }
+
+    const cachedSnapshot = findCachedBoardSnapshot((snapshot) =>
+        snapshotHasRecord(snapshot, "lists", listId)
+    );
+    if (cachedSnapshot) {
+        indexBoardSnapshot(cachedSnapshot);
+        return cachedSnapshot.item.id;
+    }
+
+    let response: any;
+    try {
+        response = await plankaRequest(`/api/lists/${listId}`);
+    } catch (error) {
+        if (isResourceNotFoundError(error)) {
+            throw new PlankaResourceNotFoundError(`List ${listId}`);
+        }
+        throw error;
+    }
+    const boardId = response?.item?.boardId;
+    if (!boardId) {
+        throw new PlankaResourceNotFoundError(`List ${listId}`);
+    }
+    listBoardIds.set(listId, boardId);
+    return boardId;
+}
+
+/**
+ * Loads the snapshot of the board a list belongs to
+ *
+ * @param {string} listId - The ID of the list
+ * @returns {Promise<PlankaSnapshot>} The board snapshot containing the list
+ * @throws {PlankaResourceNotFoundError} If the list does not exist
+ */
+export async function getListBoardSnapshot(
+    listId: string,
+): Promise<PlankaSnapshot> {
+    const boardId = await resolveListBoardId(listId);
+    const snapshot = await getBoardSnapshot(boardId);
+    indexBoardSnapshot(snapshot);
+
+    if (!snapshotHasRecord(snapshot, "lists", listId)) {
+        // The indexed list was deleted in the meantime
+        forgetList(listId);
+        throw new PlankaResourceNotFoundError(`List ${listId}`);
+    }
+    return snapshot;
+}
+
+/**
+ * Resolves the project a board belongs to
+ *
+ * @param {string} boardId - The ID of the board
+ * @returns {Promise<string | null>} The ID of the project, or null if unknown
+ */
+export async function resolveBoardProjectId(
+    boardId: string,
+): Promise<string | null> {
+    const indexedProjectId = boardProjectIds.get(boardId);
+    if (indexedProjectId) {
+        return indexedProjectId;
+    }
+
+    const projectsSnapshot = await getProjectsSnapshot();
+    for (const board of projectsSnapshot.included?.boards ?? []) {
+        if (board?.id && board.projectId) {
+            boardProjectIds.set(board.id, board.projectId);
+        }
+    }
+    return boardProjectIds.get(boardId) ?? null;
+}
+
+/**
+ * Resolves a card together with the list, board and project it belongs to
+ *
+ * The card is always fetched fresh (its list changes whenever it is moved),
+ * and its `included` payload is returned as well, so callers get task lists,
+ * labels and memberships without another request. The board and project come
+ * from the snapshot cache.
+ *
+ * @param {string} cardId - The ID of the card
+ * @returns {Promise<CardContext>} The card and its surroundings
+ * @throws {PlankaResourceNotFoundError} If the card does not exist
+ */
+export async function resolveCardContext(
+    cardId: string,
+): Promise<CardContext> {
+    let response: any;
+    try {
+        response = await plankaRequest(`/api/cards/${cardId}`);
+    } catch (error) {
+        if (isResourceNotFoundError(error)) {
+            throw new PlankaResourceNotFoundError(`Card ${cardId}`);
+        }
+        throw error;
+    }
+
+    const card = response?.item;
+    if (!card?.listId) {
+        throw new PlankaResourceNotFoundError(`Card ${cardId}`);
+    }
+
+    const boardId: string = card.boardId ??
+        await resolveListBoardId(card.listId);
+    const boardSnapshot = await getBoardSnapshot(boardId);
+    indexBoardSnapshot(boardSnapshot);
+
+    const board = boardSnapshot.item;
+    const list = boardSnapshot.included?.lists?.find((l: any) =>
+        l.id === card.listId
+    ) ?? null;
+
+    const projectId = board?.projectId ??
+        await resolveBoardProjectId(boardId);
+    const projectsSnapshot = await getProjectsSnapshot();
+    const project = projectsSnapshot.items?.find((p: any) =>
+        p.id === projectId
+    ) ?? null;
+
+    indexTaskRecords(response.included);
+
+    return {
+        card,
+        list,
+        board,
+        project,
+        included: response.included ?? {},
+    };
+}
+
+/**
+ * Resolves the card a task list belongs to
+ *
+ * @param {string} taskListId - The ID of the task list
+ * @returns {Promise<string>} The ID of the card containing the task list
+ * @throws {PlankaResourceNotFoundError} If the task list does not exist
+ */
+export async function resolveTaskListCardId(
+    taskListId: string,
+): Promise<string> {
+    const indexedCardId = taskListCardIds.get(taskListId);
+    if (indexedCardId) {
+        return indexedCardId;
+    }
+
+    const cachedSnapshot = findCachedBoardSnapshot((snapshot) =>
+        snapshotHasRecord(snapshot, "taskLists", taskListId)
+    );
+    if (cachedSnapshot) {
+        indexTaskRecords(cachedSnapshot.included);
+        return taskListCardIds.get(taskListId)!;
+    }
+
+    let response: any;
+    try {
+        response = await plankaRequest(`/api/task-lists/${taskListId}`);
+    } catch (error) {
+        if (isResourceNotFoundError(error)) {
+            throw new PlankaResourceNotFoundError(`Task list ${taskListId}`);
+        }
+        throw error;
+    }
+    const cardId = response?.item?.cardId;
+    if (!cardId) {
+        throw new PlankaResourceNotFoundError(`Task list ${taskListId}`);
+    }
+    taskListCardIds.set(taskListId, cardId);
+    indexTaskRecords(response.included);
+    return cardId;
+}
+
+/**
+ * Resolves the task list and card a task belongs to
+ *
+ * Planka has no endpoint to read a single task, so a task that is neither
+ * indexed nor in a cached board snapshot is searched in the boards the agent
+ * can access, one board snapshot at a time.
+ *
+ * @param {string} taskId - The ID of the task
+ * @returns {Promise<{taskListId: string, cardId: string}>} The task's task list and card
+ * @throws {PlankaResourceNotFoundError} If the task does not exist
+ */
+export async function resolveTaskLocation(
+    taskId: string,
+): Promise<{ taskListId: string; cardId: string }> {
+    if (!taskTaskListIds.has(taskId)) {
+        const cachedSnapshot = findCachedBoardSnapshot((snapshot) =>
+            snapshotHasRecord(snapshot, "tasks", taskId)
+        );
+        if (cachedSnapshot) {
+            indexTaskRecords(cachedSnapshot.included);
+        }
+    }
+
+    if (!taskTaskListIds.has(taskId)) {
+        const projectsSnapshot = await getProjectsSnapshot();
+        for (const board of projectsSnapshot.included?.boards ?? []) {
+            const snapshot = await getBoardSnapshot(board.id);
+            indexBoardSnapshot(snapshot);
+            if (taskTaskListIds.has(taskId)) {
+                break;
+            }
+        }
+    }
+
+    const taskListId = taskTaskListIds.get(taskId);
+    if (!taskListId) {
+        throw new PlankaResourceNotFoundError(`Task ${taskId}`);
+    }
+    return { taskListId, cardId: await resolveTaskListCardId(taskListId) };
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Retry policy for Planka requests
+ *
+ * Rate-limited requests (429) are retried once the limit resets, whatever the
+ * HTTP method, because Planka rejected them without processing them.
+ * Transient failures (5xx responses and network errors) are only retried for
+ * idempotent requests, so a POST that may already have created something is
+ * never repeated unless the caller marks it as idempotent.
+ */
+
+import { PlankaError, PlankaRateLimitError } from "./errors.js";
+
+/**
+ * Retry configuration
+ * @property {number} maxAttempts - Total number of attempts, including the first one
+ * @property {number} baseDelayMs - Delay before the first retry, doubled on every retry
+ * @property {number} maxDelayMs - Upper bound for a single wait, including rate limit waits
+ */
+export type RetryPolicy = {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+};
+
+// Planka PATCH requests set absolute values, so repeating one is harmless
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "PATCH", "DELETE"];
+
+function readNumber(name: string, fallback: number): number {
+    const value = process.env[name];
+    if (value === undefined || value === "") {
+        return fallback;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Reads the retry policy from the environment
+ *
+ * - PLANKA_RETRY_MAX_ATTEMPTS (default: 3)
+ * - PLANKA_RETRY_BASE_DELAY_MS (default: 500)
+ * - PLANKA_RETRY_MAX_DELAY_MS (default: 60000)
+ *
+ * @returns {RetryPolicy} The configured retry policy
+ */
+export function getRetryPolicy(): RetryPolicy {
+    return {
+        maxAttempts: Math.max(1, readNumber("PLANKA_RETRY_MAX_ATTEMPTS", 3)),
+        baseDelayMs: readNumber("PLANKA_RETRY_BASE_DELAY_MS", 500),
+        maxDelayMs: readNumber("PLANKA_RETRY_MAX_DELAY_MS", 60000),
+    };
+}
+
+/**
+ * Determines whether a failed request may be sent again
+ *
+ * @param {unknown} error - The error the request failed with
+ * @param {boolean} idempotent - Whether repeating the request is safe
+ * @returns {boolean} True if the request should be retried
+ */
+export function isRetryableError(error: unknown, idempotent: boolean): boolean {
+    if (error instanceof PlankaRateLimitError) {
+        return true;
+    }
+    if (!idempotent) {
+        return false;
+    }
+    if (error instanceof PlankaError) {
+        return error.status >= 500;
+    }
+    // fetch rejects with a TypeError when the connection itself fails
+    return error instanceof TypeError;
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ *
+ * Rate limits wait until `resetAt`; other failures use exponential backoff
+ * with full jitter.
+ *
+ * @param {unknown} error - The error the previous attempt failed with
+ * @param {number} attempt - The number of the attempt that just failed (1-indexed)
+ * @param {RetryPolicy} policy - The retry policy
+ * @returns {number} The delay in milliseconds
+ */
+export function getRetryDelay(
+    error: unknown,
+    attempt: number,
+    policy: RetryPolicy,
+): number {
+    if (error instanceof PlankaRateLimitError) {
+        return Math.max(0, error.resetAt.getTime() - Date.now());
+    }
+    const backoff = Math.min(
+        policy.maxDelayMs,
+        policy.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(Math.random() * backoff);
+}
+
+/**
+ * Runs a request, retrying it according to the retry policy
+ *
+ * @param {() => Promise<T>} request - The request to run
+ * @param {object} options - Retry options
+ * @param {string} options.method - The HTTP method of the request
+ * @param {boolean} [options.idempotent] - Overrides the method-based idempotency check
+ * @param {RetryPolicy} [options.policy] - Overrides the environment policy
+ * @returns {Promise<T>} The result of the first successful attempt
+ * @throws The last error if all attempts fail or the error is not retryable
+ */
+export async function withRetry<T>(
+    request: () => Promise<T>,
+    options: { method: string; idempotent?: boolean; policy?: RetryPolicy },
+): Promise<T> {
+    const policy = options.policy ?? getRetryPolicy();
+    const idempotent = options.idempotent ??
+        IDEMPOTENT_METHODS.includes(options.method.toUpperCase());
+
+    for (let attempt = 1;; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            if (
+                attempt >= policy.maxAttempts ||
+                !isRetryableError(error, idempotent)
+            ) {
+                throw error;
+            }
+
+            const delay = getRetryDelay(error, attempt, policy);
+            if (delay > policy.maxDelayMs) {
+                // Waiting for the rate limit to reset would take too long
+                throw error;
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+}
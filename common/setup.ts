@@ -1,7 +1,12 @@
 // Global variables to store user IDs
 let adminUserId: string | null = null;
+let agentUserId: string | null = null;
 
-import { getUserIdByEmail, getUserIdByUsername } from "./utils.js";
+import {
+    getUserIdByEmail,
+    getUserIdByUsername,
+    plankaRequest,
+} from "./utils.js";
 
 /**
  * Gets the admin user ID by looking up the user by email or username
@@ -54,3 +59,26 @@ export async function getAdminUserId(): Promise<string | null> {
         return null;
     }
 }
+
+/**
+ * Gets the ID of the user the server acts as (PLANKA_AGENT_EMAIL)
+ *
+ * The ID is read from Planka once and cached.
+ *
+ * @returns {Promise<string>} The agent user ID
+ * @throws {Error} If Planka does not return the current user
+ */
+export async function getAgentUserId(): Promise<string> {
+    if (agentUserId) {
+        return agentUserId;
+    }
+
+    const response = await plankaRequest("/api/users/me") as {
+        item?: { id?: string };
+    };
+    if (!response?.item?.id) {
+        throw new Error("Could not determine the agent user ID");
+    }
+    agentUserId = response.item.id;
+    return agentUserId;
+}
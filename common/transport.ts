@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Network transports for the MCP Kanban server
+ *
+ * This module serves the MCP server over HTTP so a single (containerised)
+ * instance can be shared by several agents. Two transports are supported:
+ * - Streamable HTTP on /mcp (POST, GET and DELETE)
+ * - Legacy SSE on /sse with messages posted to /messages?sessionId=...
+ *
+ * Every client session gets its own McpServer instance. The HTTP server also
+ * exposes /healthz (process is up) and /readyz (Planka is reachable and the
+ * agent credentials work) for container orchestration.
+ *
+ * Clients act with the agent's Planka credentials, so the server only listens
+ * on 127.0.0.1 unless MCP_KANBAN_HOST says otherwise, and with
+ * MCP_KANBAN_TOKEN set every request except /healthz must carry
+ * `Authorization: Bearer <token>`.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+    createServer as createHttpServer,
+    IncomingMessage,
+    Server,
+    ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { forgetUndoHistory } from "./undo.js";
+import { plankaRequest } from "./utils.js";
+
+/**
+ * Transports the server can be started with
+ */
+export const TRANSPORT_KINDS = ["stdio", "sse", "http"] as const;
+
+export type TransportKind = typeof TRANSPORT_KINDS[number];
+
+/**
+ * Options for serving the MCP server over HTTP
+ * @property {TransportKind} kind - Either "sse" or "http" (streamable HTTP)
+ * @property {number} port - The port to listen on
+ * @property {string} host - The interface to bind to
+ * @property {string} [token] - The bearer token clients must send, if any
+ */
+export type HttpTransportOptions = {
+    kind: Exclude<TransportKind, "stdio">;
+    port: number;
+    host: string;
+    token?: string;
+};
+
+// Raised for request bodies that are not valid JSON
+class JsonParseError extends Error {}
+
+/**
+ * Reads the transport kind from MCP_KANBAN_TRANSPORT (default: stdio)
+ *
+ * @returns {TransportKind} The configured transport kind
+ * @throws {Error} If the variable holds an unknown transport
+ */
+export function getTransportKind(): TransportKind {
+    const value = (process.env.MCP_KANBAN_TRANSPORT || "stdio").toLowerCase();
+    if (!TRANSPORT_KINDS.includes(value as TransportKind)) {
+        throw new Error(
+            `Unknown MCP_KANBAN_TRANSPORT "${value}". Expected one of: ${
+                TRANSPORT_KINDS.join(", ")
+            }`,
+        );
+    }
+    return value as TransportKind;
+}
+
+/**
+ * Reads the HTTP listen options from MCP_KANBAN_PORT (or SERVER_PORT),
+ * MCP_KANBAN_HOST (default: 127.0.0.1) and MCP_KANBAN_TOKEN
+ *
+ * @param {Exclude<TransportKind, "stdio">} kind - The HTTP transport to serve
+ * @returns {HttpTransportOptions} The listen options
+ */
+export function getHttpTransportOptions(
+    kind: Exclude<TransportKind, "stdio">,
+): HttpTransportOptions {
+    const port = Number(
+        process.env.MCP_KANBAN_PORT || process.env.SERVER_PORT || 3008,
+    );
+    if (!Number.isInteger(port) || port <= 0) {
+        throw new Error(`Invalid MCP_KANBAN_PORT: ${port}`);
+    }
+    const token = process.env.MCP_KANBAN_TOKEN?.trim();
+    return {
+        kind,
+        port,
+        host: process.env.MCP_KANBAN_HOST?.trim() || "127.0.0.1",
+        ...token ? { token } : {},
+    };
+}
+
+function isLoopback(host: string): boolean {
+    return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+// Hashing first gives both sides the same length for timingSafeEqual
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+    const header = req.headers.authorization ?? "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+        return false;
+    }
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    }
+    const raw = Buffer.concat(chunks).toString("utf8");
+    if (!raw) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(raw);
+    } catch (error) {
+        throw new JsonParseError(
+            error instanceof Error ? error.message : String(error),
+        );
+    }
+}
+
+/**
+ * Checks that Planka is reachable with the configured agent credentials
+ *
+ * @returns {Promise<{ready: boolean, error?: string}>} Readiness status
+ */
+async function checkReadiness() {
+    try {
+        await plankaRequest("/api/users/me");
+        return { ready: true };
+    } catch (error) {
+        return {
+            ready: false,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+/**
+ * Serves freshly created MCP servers over streamable HTTP or SSE
+ *
+ * @param {() => McpServer} createServer - Factory for per-session MCP servers
+ * @param {HttpTransportOptions} options - Transport and listen options
+ * @returns {Promise<Server>} The listening HTTP server
+ */
+export async function startHttpTransport(
+    createServer: () => McpServer,
+    options: HttpTransportOptions,
+): Promise<Server> {
+    const streamableTransports: Record<string, StreamableHTTPServerTransport> =
+        {};
+    const sseTransports: Record<string, SSEServerTransport> = {};
+
+    async function handleStreamableRequest(
+        req: IncomingMessage,
+        res: ServerResponse,
+    ) {
+        const sessionId = req.headers["mcp-session-id"] as string | undefined;
+        let body: unknown;
+        try {
+            body = req.method === "POST" ? await readJsonBody(req) : undefined;
+        } catch (error) {
+            if (!(error instanceof JsonParseError)) {
+                throw error;
+            }
+            sendJson(res, 400, {
+                jsonrpc: "2.0",
+                error: {
+                    code: -32700,
+                    message: `Parse error: ${error.message}`,
+                },
+                id: null,
+            });
+            return;
+        }
+
+        if (sessionId && streamableTransports[sessionId]) {
+            await streamableTransports[sessionId].handleRequest(req, res, body);
+            return;
+        }
+
+        if (sessionId || req.method !== "POST" || !isInitializeRequest(body)) {
+            sendJson(res, 400, {
+                jsonrpc: "2.0",
+                error: {
+                    code: -32000,
+                    message: "Bad Request: No valid session ID provided",
+                },
+                id: null,
+            });
+            return;
+        }
+
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => {
+                streamableTransports[id] = transport;
+            },
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) {
+                delete streamableTransports[transport.sessionId];
+                forgetUndoHistory(transport.sessionId);
+            }
+        };
+
+        await createServer().connect(transport);
+        await transport.handleRequest(req, res, body);
+    }
+
+    async function handleSseRequest(
+        req: IncomingMessage,
+        res: ServerResponse,
+        url: URL,
+    ) {
+        if (req.method === "GET" && url.pathname === "/sse") {
+            const transport = new SSEServerTransport("/messages", res);
+            sseTransports[transport.sessionId] = transport;
+            res.on("close", () => {
+                delete sseTransports[transport.sessionId];
+                forgetUndoHistory(transport.sessionId);
+            });
+            await createServer().connect(transport);
+            return;
+        }
+
+        if (req.method === "POST" && url.pathname === "/messages") {
+            const sessionId = url.searchParams.get("sessionId") || "";
+            const transport = sseTransports[sessionId];
+            if (!transport) {
+                sendJson(res, 404, {
+                    error: `No SSE session found for ID ${sessionId}`,
+                });
+                return;
+            }
+            await transport.handlePostMessage(req, res);
+            return;
+        }
+
+        sendJson(res, 404, { error: "Not found" });
+    }
+
+    const httpServer = createHttpServer(async (req, res) => {
+        const url = new URL(req.url || "/", `http://${req.headers.host}`);
+
+        try {
+            if (url.pathname === "/healthz") {
+                sendJson(res, 200, { status: "ok", transport: options.kind });
+                return;
+            }
+
+            if (options.token && !isAuthorized(req, options.token)) {
+                res.setHeader("WWW-Authenticate", "Bearer");
+                sendJson(res, 401, { error: "Unauthorized" });
+                return;
+            }
+
+            if (url.pathname === "/readyz") {
+                const readiness = await checkReadiness();
+                sendJson(res, readiness.ready ? 200 : 503, readiness);
+                return;
+            }
+
+            if (options.kind === "http") {
+                if (url.pathname !== "/mcp") {
+                    sendJson(res, 404, { error: "Not found" });
+                    return;
+                }
+                await handleStreamableRequest(req, res);
+                return;
+            }
+
+            await handleSseRequest(req, res, url);
+        } catch (error) {
+            console.error("Error handling MCP HTTP request:", error);
+            if (!res.headersSent) {
+                sendJson(res, 500, {
+                    error: error instanceof Error
+                        ? error.message
+                        : String(error),
+                });
+            }
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(options.port, options.host, () => resolve());
+    });
+
+    const { port } = httpServer.address() as AddressInfo;
+    console.error(
+        `MCP Kanban server listening on http://${options.host}:${port} (${options.kind})`,
+    );
+    if (!options.token && !isLoopback(options.host)) {
+        console.error(
+            "Warning: MCP_KANBAN_TOKEN is not set, so anyone who can reach this address can use the agent's Planka account",
+        );
+    }
+
+    return httpServer;
+}
@@ -66,12 +66,25 @@ export const PlankaCardSchema = z.object({
   updatedAt: z.string().nullable(),
 });
 
-export const PlankaTaskSchema = z.object({
+// A checklist on a card
+export const PlankaTaskListSchema = z.object({
   id: z.string(),
   cardId: z.string(),
   name: z.string(),
+  position: z.number(),
+  showOnFrontOfCard: z.boolean().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().nullable(),
+});
+
+// A checkable item within a task list
+export const PlankaTaskSchema = z.object({
+  id: z.string(),
+  taskListId: z.string(),
+  name: z.string(),
   isCompleted: z.boolean(),
   position: z.number(),
+  assigneeUserId: z.string().nullable().optional(),
   createdAt: z.string(),
   updatedAt: z.string().nullable(),
 });
@@ -85,12 +98,15 @@ export const PlankaCommentSchema = z.object({
   updatedAt: z.string().nullable(),
 });
 
+// Planka 2 keeps the file details (filename, mimeType, size, url) or the
+// link (url) of an attachment in `data`
 export const PlankaAttachmentSchema = z.object({
   id: z.string(),
   cardId: z.string(),
-  userId: z.string(),
+  creatorUserId: z.string().nullable().optional(),
+  type: z.enum(["file", "link"]).optional(),
+  data: z.record(z.any()).nullable().optional(),
   name: z.string(),
-  url: z.string(),
   createdAt: z.string(),
   updatedAt: z.string().nullable(),
 });
@@ -136,7 +152,9 @@ export type PlankaBoard = z.infer<typeof PlankaBoardSchema>;
 export type PlankaList = z.infer<typeof PlankaListSchema>;
 export type PlankaLabel = z.infer<typeof PlankaLabelSchema>;
 export type PlankaCard = z.infer<typeof PlankaCardSchema>;
+export type PlankaTaskList = z.infer<typeof PlankaTaskListSchema>;
 export type PlankaTask = z.infer<typeof PlankaTaskSchema>;
+export type PlankaTaskListWithTasks = PlankaTaskList & { tasks: PlankaTask[] };
 export type PlankaComment = z.infer<typeof PlankaCommentSchema>;
 export type PlankaAttachment = z.infer<typeof PlankaAttachmentSchema>;
 export type PlankaCardMembership = z.infer<typeof PlankaCardMembershipSchema>;
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Undo history of the changes made through the server
+ *
+ * The operations that are easy to get wrong and hard to repair by hand
+ * (updating and moving cards, renaming lists, deleting task lists and tasks,
+ * adding and removing labels and card members and editing comments) capture
+ * the state they overwrite before changing it. Each change is kept with a
+ * function that puts that state back, and `undoRecent` runs those functions
+ * for the most recent changes, newest first.
+ *
+ * Each MCP session has its own history, so one client never undoes another
+ * client's changes; calls without a session (stdio) share one. Histories
+ * live in memory and keep the last MAX_HISTORY changes each.
+ *
+ * Dry runs and the requests made while undoing are not recorded. Records
+ * recreated by an undo, such as deleted tasks, get new IDs.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getAuditContext } from "./audit.js";
+import { isDryRun } from "./dry-run.js";
+
+/**
+ * A change that can be undone
+ * @property {number} id - Sequence number of the change
+ * @property {string} timestamp - When the change was made (ISO 8601)
+ * @property {string | null} tool - The tool that made the change, if any
+ * @property {string | null} action - The action of the tool call, if any
+ * @property {string} description - What undoing the change restores
+ */
+export type UndoEntry = {
+    id: number;
+    timestamp: string;
+    tool: string | null;
+    action: string | null;
+    description: string;
+};
+
+type RecordedChange = UndoEntry & {
+    revert: () => Promise<unknown>;
+};
+
+// Number of changes kept in the history
+const MAX_HISTORY = 100;
+
+// Histories by MCP session ID, read from the tool call's audit context
+const histories = new Map<string, RecordedChange[]>();
+const undoStorage = new AsyncLocalStorage<boolean>();
+let changeCount = 0;
+
+function sessionHistory(): RecordedChange[] {
+    const sessionId = getAuditContext()?.sessionId ?? "";
+    let history = histories.get(sessionId);
+    if (!history) {
+        history = [];
+        histories.set(sessionId, history);
+    }
+    return history;
+}
+
+/**
+ * Drops the history of a session that has ended
+ *
+ * @param {string} sessionId - The ID of the MCP session
+ */
+export function forgetUndoHistory(sessionId: string) {
+    histories.delete(sessionId);
+}
+
+function toEntry({ revert: _, ...entry }: RecordedChange): UndoEntry {
+    return entry;
+}
+
+/**
+ * Checks whether changes made now should be recorded for undo
+ *
+ * Operations use this to skip capturing the previous state when nothing
+ * would be recorded.
+ *
+ * @returns {boolean} False during dry runs and while undoing
+ */
+export function isRecordingUndo(): boolean {
+    return !isDryRun() && !undoStorage.getStore();
+}
+
+/**
+ * Records a change that can be undone
+ *
+ * @param {string} description - What undoing the change restores, e.g. `Move card "Login" back to list 123`
+ * @param {() => Promise<unknown>} revert - Puts the previous state back
+ */
+export function recordUndo(
+    description: string,
+    revert: () => Promise<unknown>,
+) {
+    if (!isRecordingUndo()) {
+        return;
+    }
+
+    const context = getAuditContext();
+    const history = sessionHistory();
+    history.push({
+        id: ++changeCount,
+        timestamp: new Date().toISOString(),
+        tool: context?.tool ?? null,
+        action: context?.action ?? null,
+        description,
+        revert,
+    });
+    history.splice(0, Math.max(0, history.length - MAX_HISTORY));
+}
+
+/**
+ * Picks the current values of the fields an update is about to change
+ *
+ * @param {Record<string, any>} before - The record before the update
+ * @param {object} changes - The update; fields set to undefined or missing from the record are ignored
+ * @returns {Record<string, any>} The fields to send to restore the record
+ */
+export function pickChangedFields(
+    before: Record<string, any>,
+    changes: object,
+): Record<string, any> {
+    return Object.fromEntries(
+        Object.entries(changes)
+            .filter(([key, value]) => value !== undefined && key in before)
+            .map(([key]) => [key, before[key]]),
+    );
+}
+
+/**
+ * Returns the most recent changes of the current session that can be
+ * undone, newest first
+ *
+ * @param {number} [limit=20] - The maximum number of changes to return
+ * @returns {UndoEntry[]} The changes
+ */
+export function getUndoHistory(limit: number = 20): UndoEntry[] {
+    const history = sessionHistory();
+    return history.slice(Math.max(0, history.length - limit))
+        .reverse()
+        .map(toEntry);
+}
+
+/**
+ * Undoes the most recent changes of the current session, newest first
+ *
+ * A change that cannot be restored (e.g. because the record was deleted
+ * since) is reported and the remaining changes are still undone. Undone
+ * changes leave the history whether or not they could be restored, except
+ * in dry runs, which only report what would be restored.
+ *
+ * @param {number} [count=1] - The number of changes to undo
+ * @returns {Promise<{undone: UndoEntry[], failed: Array<UndoEntry & {error: string}>}>} The restored changes and the ones that could not be restored
+ */
+export async function undoRecent(count: number = 1) {
+    const history = sessionHistory();
+    const changes = history.slice(Math.max(0, history.length - count))
+        .reverse();
+    if (!isDryRun()) {
+        // Taken out first so concurrent calls never undo a change twice
+        history.splice(history.length - changes.length, changes.length);
+    }
+
+    const undone: UndoEntry[] = [];
+    const failed: Array<UndoEntry & { error: string }> = [];
+    await undoStorage.run(true, async () => {
+        for (const change of changes) {
+            try {
+                await change.revert();
+                undone.push(toEntry(change));
+            } catch (error) {
+                failed.push({
+                    ...toEntry(change),
+                    error: error instanceof Error
+                        ? error.message
+                        : String(error),
+                });
+            }
+        }
+    });
+    return { undone, failed };
+}
@@ -1,15 +1,30 @@
 import { getUserAgent } from "universal-user-agent";
-import { createPlankaError } from "./errors.js";
+import {
+  createPlankaError,
+  PlankaAuthenticationError,
+  PlankaError,
+  PlankaPermissionError,
+} from "./errors.js";
+import { isReadMethod, isRequestAllowed } from "./access.js";
+import { recordMutation } from "./audit.js";
+import { handleDryRunRequest, isDryRun } from "./dry-run.js";
+import { fetchPlanka } from "./fixtures.js";
+import { withRetry } from "./retry.js";
 import { VERSION } from "./version.js";
 
 // Global variables to store tokens
 let agentToken: string | null = null;
+let pendingAuthentication: Promise<string> | null = null;
 
 type RequestOptions = {
   method?: string;
   body?: unknown;
   headers?: Record<string, string>;
   skipAuth?: boolean;
+  // Allows retrying a non-idempotent method (e.g. POST) on transient failures
+  idempotent?: boolean;
+  // Returns the response body as a Buffer instead of parsing it
+  raw?: boolean;
 };
 
 async function parseResponseBody(response: Response): Promise<unknown> {
@@ -55,7 +70,7 @@ async function authenticateAgent(): Promise<string> {
   const url = new URL("/api/access-tokens", normalizedBaseUrl).toString();
 
   try {
-    const response = await fetch(url, {
+    const response = await fetchPlanka(url, {
       method: "POST",
       headers: {
         "Accept": "application/json",
@@ -92,7 +107,82 @@ async function getAuthToken(): Promise<string> {
   if (agentToken) {
     return agentToken;
   }
-  return authenticateAgent();
+
+  // Share a single in-flight login between concurrent requests
+  if (!pendingAuthentication) {
+    pendingAuthentication = authenticateAgent().finally(() => {
+      pendingAuthentication = null;
+    });
+  }
+  return pendingAuthentication;
+}
+
+/**
+ * Drops the cached agent token after Planka rejected it
+ *
+ * The token is only cleared if it is still the one that was rejected, so a
+ * request that fails late does not throw away a token another request has
+ * already refreshed.
+ *
+ * @param {string} rejectedToken - The token Planka answered 401 to
+ */
+function invalidateAuthToken(rejectedToken: string) {
+  if (agentToken === rejectedToken) {
+    agentToken = null;
+  }
+}
+
+async function sendRequest(
+  url: string,
+  options: RequestOptions,
+  headers: Record<string, string>,
+): Promise<{ status: number; body: unknown }> {
+  const response = await fetchPlanka(url, {
+    method: options.method || "GET",
+    headers,
+    body: options.body instanceof FormData
+      ? options.body
+      : options.body
+      ? JSON.stringify(options.body)
+      : undefined,
+    credentials: "include", // Include cookies for Planka authentication
+  });
+
+  if (!response.ok) {
+    throw createPlankaError(
+      response.status,
+      withRetryAfter(response, await parseResponseBody(response)),
+    );
+  }
+
+  const responseBody = options.raw
+    ? Buffer.from(await response.arrayBuffer())
+    : await parseResponseBody(response);
+  return { status: response.status, body: responseBody };
+}
+
+/**
+ * Adds a `reset_at` derived from the Retry-After header to a 429 response
+ * body that does not carry one, so PlankaRateLimitError.resetAt is accurate
+ */
+function withRetryAfter(response: Response, responseBody: unknown): unknown {
+  const retryAfter = response.headers.get("retry-after");
+  if (response.status !== 429 || !retryAfter) {
+    return responseBody;
+  }
+  const body = typeof responseBody === "object" && responseBody !== null
+    ? responseBody as Record<string, unknown>
+    : { message: typeof responseBody === "string" ? responseBody : undefined };
+  if (body.reset_at) {
+    return body;
+  }
+  const seconds = Number(retryAfter);
+  const resetAt = Number.isFinite(seconds)
+    ? new Date(Date.now() + seconds * 1000)
+    : new Date(retryAfter);
+  return Number.isNaN(resetAt.getTime())
+    ? body
+    : { ...body, reset_at: resetAt.toISOString() };
 }
 
 export async function plankaRequest(
@@ -111,6 +201,53 @@ export async function plankaRequest(
 
   const url = new URL(normalizedPath, normalizedBaseUrl).toString();
 
+  const method = options.method || "GET";
+  if (!isRequestAllowed(method)) {
+    throw new PlankaPermissionError(
+      `${method} ${normalizedPath} rejected: the server is in read-only mode (PLANKA_READ_ONLY)`,
+    );
+  }
+
+  if (isDryRun()) {
+    return handleDryRunRequest(
+      { method, path: normalizedPath, body: options.body },
+      () => sendAuthenticatedRequest(url, normalizedPath, method, options),
+      (recordPath) => plankaRequest(recordPath),
+    );
+  }
+  return sendAuthenticatedRequest(url, normalizedPath, method, options);
+}
+
+/**
+ * Downloads a file from Planka, e.g. an attachment
+ *
+ * Unlike plankaRequest, the path is not prefixed with /api/ and the body is
+ * returned as is.
+ *
+ * @param {string} path - The path of the file, e.g. /attachments/1/download/notes.txt
+ * @returns {Promise<Buffer>} The file contents
+ */
+export async function plankaDownload(path: string): Promise<Buffer> {
+  const baseUrl = process.env.PLANKA_BASE_URL || "http://localhost:3000";
+  const normalizedBaseUrl = baseUrl.endsWith("/api")
+    ? baseUrl.slice(0, -4)
+    : baseUrl;
+  const url = new URL(path, normalizedBaseUrl).toString();
+
+  return sendAuthenticatedRequest(url, path, "GET", {
+    raw: true,
+    headers: { "Accept": "*/*" },
+  }) as Promise<
+    Buffer
+  >;
+}
+
+async function sendAuthenticatedRequest(
+  url: string,
+  path: string,
+  method: string,
+  options: RequestOptions,
+): Promise<unknown> {
   const headers: Record<string, string> = {
     "Accept": "application/json",
     "Content-Type": "application/json",
@@ -124,9 +261,10 @@ export async function plankaRequest(
   }
 
   // Add authentication token if not skipped
+  let token: string | null = null;
   if (!options.skipAuth) {
     try {
-      const token = await getAuthToken();
+      token = await getAuthToken();
       headers["Authorization"] = `Bearer ${token}`;
     } catch (error: unknown) {
       const errorMessage = error instanceof Error
@@ -136,29 +274,48 @@ export async function plankaRequest(
     }
   }
 
+  let response: { status: number; body: unknown };
   try {
-    const response = await fetch(url, {
-      method: options.method || "GET",
-      headers,
-      body: options.body instanceof FormData
-        ? options.body
-        : options.body
-        ? JSON.stringify(options.body)
-        : undefined,
-      credentials: "include", // Include cookies for Planka authentication
-    });
-
-    const responseBody = await parseResponseBody(response);
-
-    if (!response.ok) {
-      throw createPlankaError(response.status, responseBody);
-    }
-
-    return responseBody;
+    response = await withRetry(async () => {
+      try {
+        return await sendRequest(url, options, headers);
+      } catch (error: unknown) {
+        if (!token || !(error instanceof PlankaAuthenticationError)) {
+          throw error;
+        }
+
+        // The cached token was revoked or expired: log in again and replay once
+        invalidateAuthToken(token);
+        token = await getAuthToken();
+        headers["Authorization"] = `Bearer ${token}`;
+        return await sendRequest(url, options, headers);
+      }
+    }, { method, idempotent: options.idempotent });
   } catch (error: unknown) {
+    if (!isReadMethod(method)) {
+      recordMutation({
+        method,
+        path,
+        status: error instanceof PlankaError ? error.status : null,
+        error,
+      });
+    }
     const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to make Planka request to ${url}: ${errorMessage}`);
+    throw new Error(
+      `Failed to make Planka request to ${url}: ${errorMessage}`,
+      { cause: error },
+    );
+  }
+
+  if (!isReadMethod(method)) {
+    recordMutation({
+      method,
+      path,
+      status: response.status,
+      response: response.body,
+    });
   }
+  return response.body;
 }
 
 export function validateProjectName(name: string): string {
@@ -0,0 +1,284 @@
+/**
+ * @fileoverview Workflow definitions for the MCP Kanban server
+ *
+ * A workflow describes the states a card goes through, which lists represent
+ * each state, which moves between states are allowed and which states are
+ * terminal. The board summary, its next-action suggestion and the workflow
+ * actions all read the same definition, resolved per board in this order:
+ *
+ * 1. A marker card on the board named "[workflow]" whose description holds
+ *    the definition as JSON (optionally in a ```json code fence)
+ * 2. The board's entry in the JSON file referenced by PLANKA_WORKFLOW_CONFIG
+ * 3. The "default" entry of that file
+ * 4. The built-in workflow matching the lists created for new boards
+ *
+ * Example PLANKA_WORKFLOW_CONFIG file:
+ *
+ * {
+ *   "boards": {
+ *     "1234567890": {
+ *       "states": [
+ *         { "id": "todo", "lists": ["Ideas"] },
+ *         { "id": "inProgress", "lists": ["Doing"] },
+ *         { "id": "testing", "lists": ["QA"] },
+ *         { "id": "done", "lists": ["Shipped"], "terminal": true }
+ *       ],
+ *       "transitions": {
+ *         "todo": ["inProgress"],
+ *         "inProgress": ["testing"],
+ *         "testing": ["inProgress", "done"]
+ *       }
+ *     }
+ *   }
+ * }
+ */
+
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { getBoardSnapshot } from "./cache.js";
+
+/**
+ * Name of the card that carries a board's workflow definition
+ */
+export const WORKFLOW_MARKER_CARD_NAME = "[workflow]";
+
+/**
+ * Schema for a workflow state
+ * @property {string} id - Identifier used in transitions and actions
+ * @property {string[]} lists - Names of the lists representing the state (case-insensitive)
+ * @property {boolean} [terminal] - Whether cards in this state are finished (counted as done by the board summary)
+ */
+export const WorkflowStateSchema = z.object({
+    id: z.string(),
+    lists: z.array(z.string()).min(1),
+    terminal: z.boolean().optional(),
+});
+
+/**
+ * Schema for a workflow definition
+ * @property {WorkflowState[]} states - The states, in workflow order
+ * @property {Record<string, string[]>} [transitions] - Allowed target states per state (states without an entry allow any move; an empty list locks the state)
+ * @property {object} [actions] - Target state of each workflow action
+ */
+export const WorkflowDefinitionSchema = z.object({
+    states: z.array(WorkflowStateSchema).min(1),
+    transitions: z.record(z.array(z.string())).optional(),
+    actions: z.object({
+        start_working: z.string().optional(),
+        move_to_testing: z.string().optional(),
+        move_to_done: z.string().optional(),
+    }).optional(),
+}).superRefine((workflow, ctx) => {
+    const ids = new Set(workflow.states.map((state) => state.id));
+    const references = [
+        ...Object.entries(workflow.transitions ?? {}).flatMap((
+            [from, targets],
+        ) => [from, ...targets]),
+        ...Object.values(workflow.actions ?? {}),
+    ];
+    for (const id of references) {
+        if (id && !ids.has(id)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Unknown workflow state "${id}"`,
+            });
+        }
+    }
+});
+
+const WorkflowConfigSchema = z.object({
+    default: WorkflowDefinitionSchema.optional(),
+    boards: z.record(WorkflowDefinitionSchema).optional(),
+});
+
+// Type exports
+export type WorkflowState = z.infer<typeof WorkflowStateSchema>;
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+export type WorkflowAction = keyof NonNullable<WorkflowDefinition["actions"]>;
+type WorkflowConfig = z.infer<typeof WorkflowConfigSchema>;
+
+const DEFAULT_ACTION_STATES: Record<WorkflowAction, string> = {
+    start_working: "inProgress",
+    move_to_testing: "testing",
+    move_to_done: "done",
+};
+
+/**
+ * Built-in workflow, matching the default lists created with a new board
+ *
+ * It has no transitions, so cards may move between any of its states, as
+ * they could before workflows were configurable.
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+    states: [
+        { id: "backlog", lists: ["Backlog"] },
+        { id: "todo", lists: ["To Do"] },
+        { id: "inProgress", lists: ["In Progress"] },
+        { id: "onHold", lists: ["On Hold"] },
+        { id: "testing", lists: ["Testing", "Review"] },
+        { id: "done", lists: ["Done"], terminal: true },
+    ],
+    actions: DEFAULT_ACTION_STATES,
+};
+
+let workflowConfig: WorkflowConfig | null = null;
+
+function loadWorkflowConfig(): WorkflowConfig {
+    if (workflowConfig) {
+        return workflowConfig;
+    }
+
+    const configPath = process.env.PLANKA_WORKFLOW_CONFIG;
+    if (!configPath) {
+        workflowConfig = {};
+        return workflowConfig;
+    }
+
+    try {
+        workflowConfig = WorkflowConfigSchema.parse(
+            JSON.parse(readFileSync(configPath, "utf8")),
+        );
+    } catch (error) {
+        throw new Error(
+            `Failed to load workflow config from ${configPath}: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+    return workflowConfig;
+}
+
+/**
+ * Checks whether a card is a board's workflow marker card, which holds the
+ * workflow definition rather than work
+ *
+ * @param {{name?: string | null}} card - The card to check
+ * @returns {boolean} True if the card is named "[workflow]"
+ */
+export function isWorkflowMarkerCard(card: { name?: string | null }): boolean {
+    return card.name?.trim().toLowerCase() === WORKFLOW_MARKER_CARD_NAME;
+}
+
+/**
+ * Parses the workflow definition stored in a marker card's description
+ *
+ * @param {string} description - The marker card's description
+ * @returns {WorkflowDefinition} The parsed definition
+ * @throws {Error} If the description is not a valid definition
+ */
+function parseMarkerDefinition(description: string): WorkflowDefinition {
+    const fenced = description.match(/```(?:json)?\s*([\s\S]*?)```/);
+    try {
+        return WorkflowDefinitionSchema.parse(
+            JSON.parse(fenced ? fenced[1] : description),
+        );
+    } catch (error) {
+        throw new Error(
+            `Invalid workflow definition in the "${WORKFLOW_MARKER_CARD_NAME}" card: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+}
+
+/**
+ * Returns the workflow definition that applies to a board
+ *
+ * @param {string} boardId - The ID of the board
+ * @returns {Promise<WorkflowDefinition>} The board's workflow
+ * @throws {Error} If the marker card or config file holds an invalid definition
+ */
+export async function getBoardWorkflow(
+    boardId: string,
+): Promise<WorkflowDefinition> {
+    const snapshot = await getBoardSnapshot(boardId);
+    const markerCard = snapshot.included?.cards?.find(isWorkflowMarkerCard);
+    if (markerCard?.description) {
+        return parseMarkerDefinition(markerCard.description);
+    }
+
+    const config = loadWorkflowConfig();
+    return config.boards?.[boardId] ?? config.default ?? DEFAULT_WORKFLOW;
+}
+
+/**
+ * Finds the state a list represents
+ *
+ * @param {WorkflowDefinition} workflow - The workflow definition
+ * @param {string} listName - The name of the list
+ * @returns {WorkflowState | undefined} The state, if the list is part of the workflow
+ */
+export function getListState(
+    workflow: WorkflowDefinition,
+    listName: string,
+): WorkflowState | undefined {
+    const normalizedName = listName.trim().toLowerCase();
+    return workflow.states.find((state) =>
+        state.lists.some((name) =>
+            name.trim().toLowerCase() === normalizedName
+        )
+    );
+}
+
+/**
+ * Finds the list representing a state on a board
+ *
+ * The state's list names are tried in order, so the first configured name
+ * wins when a board has several matching lists.
+ *
+ * @param {WorkflowDefinition} workflow - The workflow definition
+ * @param {Array<{name: string}>} lists - The lists of the board
+ * @param {string} stateId - The ID of the state
+ * @returns {object | undefined} The matching list, if any
+ */
+export function findStateList<T extends { name: string }>(
+    workflow: WorkflowDefinition,
+    lists: T[],
+    stateId: string,
+): T | undefined {
+    const state = workflow.states.find((s) => s.id === stateId);
+    for (const name of state?.lists ?? []) {
+        const list = lists.find((l) =>
+            l.name.trim().toLowerCase() === name.trim().toLowerCase()
+        );
+        if (list) {
+            return list;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Returns the state a workflow action moves cards to
+ *
+ * @param {WorkflowDefinition} workflow - The workflow definition
+ * @param {WorkflowAction} action - The workflow action
+ * @returns {string} The ID of the target state
+ */
+export function getActionState(
+    workflow: WorkflowDefinition,
+    action: WorkflowAction,
+): string {
+    return workflow.actions?.[action] ?? DEFAULT_ACTION_STATES[action];
+}
+
+/**
+ * Checks whether a card may move from one state to another
+ *
+ * @param {WorkflowDefinition} workflow - The workflow definition
+ * @param {string} fromStateId - The card's current state
+ * @param {string} toStateId - The requested state
+ * @returns {boolean} True if the move is allowed
+ */
+export function isTransitionAllowed(
+    workflow: WorkflowDefinition,
+    fromStateId: string,
+    toStateId: string,
+): boolean {
+    if (fromStateId === toStateId) {
+        return true;
+    }
+    // States without explicit transitions allow any move
+    const targets = workflow.transitions?.[fromStateId];
+    return targets === undefined || targets.includes(toStateId);
+}
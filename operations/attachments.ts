@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Attachment operations for the MCP Kanban server
+ *
+ * This module provides functions for managing card attachments in the Planka Kanban system,
+ * including uploading local files or inline content, listing a card's attachments,
+ * downloading them to the attachments directory and deleting them.
+ *
+ * Downloads are written to PLANKA_ATTACHMENTS_DIR (default: `attachments` in the
+ * working directory, i.e. the /app/attachments volume of the Docker image).
+ *
+ * Local files can only be uploaded from PLANKA_ATTACHMENTS_DIR, and only when
+ * it is set explicitly; otherwise uploads take inline content only. Paths are
+ * resolved with symlinks followed, so neither `..` nor a link can reach a
+ * file outside that directory.
+ */
+
+import { mkdir, readFile, realpath, writeFile } from "node:fs/promises";
+import { basename, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { z } from "zod";
+import { plankaDownload, plankaRequest } from "../common/utils.js";
+import {
+    clearSnapshotCache,
+    invalidateBoardSnapshots,
+} from "../common/cache.js";
+import { isDryRun } from "../common/dry-run.js";
+import { resolveCardContext } from "../common/resolver.js";
+import { PlankaAttachmentSchema } from "../common/types.js";
+
+// Schema definitions
+/**
+ * Schema for uploading an attachment
+ * @property {string} cardId - The ID of the card to attach the file to
+ * @property {string} [filePath] - Path of a local file to upload, within PLANKA_ATTACHMENTS_DIR
+ * @property {string} [content] - Inline content to upload instead of a file
+ * @property {string} [encoding] - Encoding of the inline content (utf8 or base64, default: utf8)
+ * @property {string} [name] - The attachment name (default: the file name)
+ */
+export const UploadAttachmentSchema = z.object({
+    cardId: z.string().describe("Card ID"),
+    filePath: z.string().optional().describe(
+        "Path of a local file to upload, within PLANKA_ATTACHMENTS_DIR (relative paths start there)",
+    ),
+    content: z.string().optional().describe(
+        "Inline content to upload instead of a file",
+    ),
+    encoding: z.enum(["utf8", "base64"]).optional().describe(
+        "Encoding of the inline content (default: utf8)",
+    ),
+    name: z.string().optional().describe(
+        "Attachment name (default: the file name; required for inline content)",
+    ),
+});
+
+// Type exports
+/**
+ * Type definition for attachment upload options
+ */
+export type UploadAttachmentOptions = z.infer<typeof UploadAttachmentSchema>;
+
+// Response schemas
+const AttachmentResponseSchema = z.object({
+    item: PlankaAttachmentSchema,
+    included: z.record(z.any()).optional(),
+});
+
+/**
+ * Returns the directory attachments are downloaded to
+ *
+ * @returns {string} The absolute path of PLANKA_ATTACHMENTS_DIR (default: attachments)
+ */
+export function getAttachmentsDir(): string {
+    return resolve(process.env.PLANKA_ATTACHMENTS_DIR?.trim() || "attachments");
+}
+
+/**
+ * Reads a local file to upload, if it lies within PLANKA_ATTACHMENTS_DIR
+ *
+ * @param {string} filePath - The path of the file, absolute or relative to the directory
+ * @returns {Promise<Buffer>} The file's contents
+ * @throws {Error} If PLANKA_ATTACHMENTS_DIR is not set or the file is outside of it
+ */
+async function readUploadFile(filePath: string): Promise<Buffer> {
+    const dir = process.env.PLANKA_ATTACHMENTS_DIR?.trim();
+    if (!dir) {
+        throw new Error(
+            "Uploading local files is disabled: set PLANKA_ATTACHMENTS_DIR to the directory files may be uploaded from, or pass the content inline",
+        );
+    }
+
+    // Both paths with symlinks followed, so links cannot point elsewhere
+    const baseDir = await realpath(resolve(dir));
+    const path = await realpath(resolve(baseDir, filePath));
+    const relativePath = relative(baseDir, path);
+    if (
+        relativePath === ".." ||
+        relativePath.startsWith(`..${sep}`) ||
+        isAbsolute(relativePath)
+    ) {
+        throw new Error(`${filePath} is outside of ${baseDir}`);
+    }
+    return await readFile(path);
+}
+
+// Function implementations
+/**
+ * Retrieves the attachments of a card
+ *
+ * @param {string} cardId - The ID of the card to get the attachments of
+ * @returns {Promise<Array<object>>} The card's attachments
+ * @throws {PlankaResourceNotFoundError} If the card does not exist
+ */
+export async function getAttachments(cardId: string) {
+    const context = await resolveCardContext(cardId);
+    return (context.included.attachments ?? []).filter((attachment: any) =>
+        attachment.cardId === cardId
+    );
+}
+
+/**
+ * Uploads a local file or inline content to a card
+ *
+ * @param {UploadAttachmentOptions} options - Options for uploading the attachment
+ * @param {string} options.cardId - The ID of the card to attach the file to
+ * @param {string} [options.filePath] - Path of a local file to upload, within PLANKA_ATTACHMENTS_DIR
+ * @param {string} [options.content] - Inline content to upload instead of a file
+ * @param {string} [options.encoding] - Encoding of the inline content (utf8 or base64)
+ * @param {string} [options.name] - The attachment name (default: the file name)
+ * @returns {Promise<object>} The created attachment
+ * @throws {Error} If neither or both of filePath and content are given, the file is outside of PLANKA_ATTACHMENTS_DIR, or the upload fails
+ */
+export async function uploadAttachment(options: UploadAttachmentOptions) {
+    const { cardId, filePath, content, encoding = "utf8" } = options;
+    if ((filePath === undefined) === (content === undefined)) {
+        throw new Error("Either filePath or content is required, not both");
+    }
+    const name = options.name ?? (filePath ? basename(filePath) : undefined);
+    if (!name) {
+        throw new Error("name is required when uploading inline content");
+    }
+
+    try {
+        const data = filePath !== undefined
+            ? await readUploadFile(filePath)
+            : Buffer.from(content!, encoding);
+
+        // Planka reads the fields before the file
+        const form = new FormData();
+        form.append("type", "file");
+        form.append("name", name);
+        form.append("file", new Blob([data]), name);
+
+        const response = await plankaRequest(
+            `/api/cards/${cardId}/attachments`,
+            {
+                method: "POST",
+                body: form,
+            },
+        );
+        invalidateBoardSnapshots({ cardId });
+        const parsedResponse = AttachmentResponseSchema.parse(response);
+        return parsedResponse.item;
+    } catch (error) {
+        throw new Error(
+            `Failed to upload attachment: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+}
+
+/**
+ * Downloads an attachment of a card to the attachments directory
+ *
+ * The file is saved as `<attachments dir>/<attachment ID>/<file name>`. In
+ * dry runs the file is downloaded but not saved.
+ *
+ * @param {string} cardId - The ID of the card the attachment belongs to
+ * @param {string} id - The ID of the attachment to download
+ * @returns {Promise<{attachment: object, path: string, size: number, saved: boolean}>} The attachment, where it was saved, its size in bytes and whether it was saved
+ * @throws {Error} If the attachment is not a file of the card or the download fails
+ */
+export async function downloadAttachment(cardId: string, id: string) {
+    const attachments = await getAttachments(cardId);
+    const attachment = attachments.find((a: any) => a.id === id);
+    if (!attachment) {
+        throw new Error(`Attachment ${id} not found on card ${cardId}`);
+    }
+    const url = attachment.data?.url;
+    if (attachment.type === "link" || typeof url !== "string") {
+        throw new Error(`Attachment ${id} is a link, not a file`);
+    }
+
+    try {
+        const { pathname, search } = new URL(url, "http://planka");
+        const data = await plankaDownload(`${pathname}${search}`);
+
+        // Only the last segment of the name, so it cannot leave the directory
+        const fileName =
+            basename(attachment.data?.filename ?? attachment.name) || id;
+        const dir = join(getAttachmentsDir(), id);
+        const path = join(dir, fileName);
+        const saved = !isDryRun();
+        if (saved) {
+            await mkdir(dir, { recursive: true });
+            await writeFile(path, data);
+        }
+        return { attachment, path, size: data.length, saved };
+    } catch (error) {
+        throw new Error(
+            `Failed to download attachment: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+}
+
+/**
+ * Deletes an attachment
+ *
+ * @param {string} id - The ID of the attachment to delete
+ * @returns {Promise<{success: boolean}>} Success indicator
+ */
+export async function deleteAttachment(id: string) {
+    try {
+        const response = await plankaRequest(`/api/attachments/${id}`, {
+            method: "DELETE",
+        });
+        const cardId = (response as any)?.item?.cardId;
+        if (cardId) {
+            invalidateBoardSnapshots({ cardId });
+        } else {
+            clearSnapshotCache();
+        }
+        return { success: true };
+    } catch (error) {
+        throw new Error(
+            `Failed to delete attachment: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+}
@@ -8,6 +8,10 @@
 
 import { z } from "zod";
 import { plankaRequest } from "../common/utils.js";
+import {
+    clearSnapshotCache,
+    invalidateBoardSnapshots,
+} from "../common/cache.js";
 
 // Schema definitions
 /**
@@ -101,6 +105,11 @@ const BoardMembershipResponseSchema = z.object({
     included: z.record(z.any()).optional(),
 });
 
+// Only the board is needed from a deleted board membership
+const DeletedBoardMembershipResponseSchema = z.object({
+    item: z.object({ boardId: z.string() }),
+});
+
 // Function implementations
 /**
  * Creates a new board membership (adds a user to a board with specified permissions)
@@ -126,6 +135,7 @@ export async function createBoardMembership(
                 },
             },
         );
+        invalidateBoardSnapshots({ boardId: options.boardId });
         const parsedResponse = BoardMembershipResponseSchema.parse(response);
         return parsedResponse.item;
     } catch (error) {
@@ -216,6 +226,7 @@ export async function updateBoardMembership(
             body: options,
         });
         const parsedResponse = BoardMembershipResponseSchema.parse(response);
+        invalidateBoardSnapshots({ boardId: parsedResponse.item.boardId });
         return parsedResponse.item;
     } catch (error) {
         throw new Error(
@@ -235,9 +246,17 @@ export async function updateBoardMembership(
  */
 export async function deleteBoardMembership(id: string) {
     try {
-        await plankaRequest(`/api/board-memberships/${id}`, {
+        const response = await plankaRequest(`/api/board-memberships/${id}`, {
             method: "DELETE",
         });
+        const deleted = DeletedBoardMembershipResponseSchema.safeParse(
+            response,
+        );
+        if (deleted.success) {
+            invalidateBoardSnapshots({ boardId: deleted.data.item.boardId });
+        } else {
+            clearSnapshotCache();
+        }
         return { success: true };
     } catch (error) {
         throw new Error(
@@ -8,6 +8,12 @@
 
 import { z } from "zod";
 import { plankaRequest } from "../common/utils.js";
+import {
+    getBoardSnapshot,
+    getProjectsSnapshot,
+    invalidateBoardSnapshots,
+    invalidateProjectsSnapshot,
+} from "../common/cache.js";
 import { PlankaBoardSchema } from "../common/types.js";
 import { getAdminUserId } from "../common/setup.js";
 import * as boardMemberships from "./boardMemberships.js";
@@ -199,6 +205,7 @@ export async function createBoard(options: CreateBoardOptions) {
         );
         const parsedResponse = BoardResponseSchema.parse(response);
         const board = parsedResponse.item;
+        invalidateProjectsSnapshot();
 
         // Add the admin user as a board member
         try {
@@ -245,7 +252,7 @@ export async function createBoard(options: CreateBoardOptions) {
 export async function getBoards(projectId: string) {
     try {
         // Get all projects which includes boards in the response
-        const response = await plankaRequest(`/api/projects`);
+        const response = await getProjectsSnapshot();
 
         // Check if the response has the expected structure
         if (
@@ -286,7 +293,7 @@ export async function getBoards(projectId: string) {
  * @throws {Error} If retrieving the board fails
  */
 export async function getBoard(id: string) {
-    const response = await plankaRequest(`/api/boards/${id}`);
+    const response = await getBoardSnapshot(id);
     const parsedResponse = BoardResponseSchema.parse(response);
     return parsedResponse.item;
 }
@@ -307,6 +314,8 @@ export async function updateBoard(
         method: "PATCH",
         body: options,
     });
+    invalidateProjectsSnapshot();
+    invalidateBoardSnapshots({ boardId: id });
     const parsedResponse = BoardResponseSchema.parse(response);
     return parsedResponse.item;
 }
@@ -322,5 +331,7 @@ export async function deleteBoard(id: string) {
     await plankaRequest(`/api/boards/${id}`, {
         method: "DELETE",
     });
+    invalidateProjectsSnapshot();
+    invalidateBoardSnapshots({ boardId: id });
     return { success: true };
 }
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Card membership operations for the MCP Kanban server
+ *
+ * This module provides functions for managing card memberships in the Planka Kanban system,
+ * i.e. the users assigned to a card, so the ownership of work on a board is explicit.
+ */
+
+import { z } from "zod";
+import { plankaRequest } from "../common/utils.js";
+import { getBoardSnapshot, invalidateBoardSnapshots } from "../common/cache.js";
+import { resolveCardContext } from "../common/resolver.js";
+import { recordUndo } from "../common/undo.js";
+import { PlankaCardMembershipSchema } from "../common/types.js";
+
+// Response schemas
+const CardMembershipResponseSchema = z.object({
+    item: PlankaCardMembershipSchema,
+    included: z.record(z.any()).optional(),
+});
+
+// Function implementations
+/**
+ * Pairs a card's memberships with the board users they refer to
+ *
+ * @param {string} cardId - The ID of the card
+ * @param {Array<object>} cardMemberships - Card memberships, e.g. the `included.cardMemberships` of a card response
+ * @param {Array<object>} boardUsers - The users of the card's board
+ * @returns {Array<object>} The card's memberships, each with the assigned `user` (ID, name, username and email) if the user is on the board
+ */
+export function describeCardMembers(
+    cardId: string,
+    cardMemberships: any[],
+    boardUsers: any[],
+) {
+    return cardMemberships
+        .filter((membership: any) => membership.cardId === cardId)
+        .map((membership: any) => {
+            const user = boardUsers.find((u: any) =>
+                u.id === membership.userId
+            );
+            return {
+                ...membership,
+                user: user
+                    ? {
+                        id: user.id,
+                        name: user.name,
+                        username: user.username,
+                        email: user.email,
+                    }
+                    : null,
+            };
+        });
+}
+
+/**
+ * Retrieves the users assigned to a card
+ *
+ * @param {string} cardId - The ID of the card to get the members of
+ * @returns {Promise<Array<object>>} The card memberships, each with the assigned `user` (ID, name, username and email) if the user is on the board
+ * @throws {PlankaResourceNotFoundError} If the card does not exist
+ */
+export async function getCardMembers(cardId: string) {
+    const context = await resolveCardContext(cardId);
+    const boardSnapshot = await getBoardSnapshot(context.board.id);
+    return describeCardMembers(
+        cardId,
+        context.included.cardMemberships ?? [],
+        boardSnapshot.included?.users ?? [],
+    );
+}
+
+/**
+ * Assigns a user to a card
+ *
+ * @param {string} cardId - The ID of the card to assign the user to
+ * @param {string} userId - The ID of the user to assign
+ * @returns {Promise<object>} The created card membership
+ * @throws {Error} If the user cannot be assigned, e.g. because they already are
+ */
+export async function addCardMember(cardId: string, userId: string) {
+    try {
+        const response = await plankaRequest(
+            `/api/cards/${cardId}/card-memberships`,
+            {
+                method: "POST",
+                body: {
+                    userId,
+                },
+            },
+        );
+        invalidateBoardSnapshots({ cardId });
+        recordUndo(
+            `Unassign user ${userId} from card ${cardId}`,
+            () => removeCardMember(cardId, userId),
+        );
+
+        const parsedResponse = CardMembershipResponseSchema.parse(response);
+        return parsedResponse.item;
+    } catch (error) {
+        throw new Error(
+            `Failed to add member to card: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+}
+
+/**
+ * Unassigns a user from a card
+ *
+ * @param {string} cardId - The ID of the card to unassign the user from
+ * @param {string} userId - The ID of the user to unassign
+ * @returns {Promise<{success: boolean}>} Success indicator
+ * @throws {Error} If the user cannot be unassigned, e.g. because they are not assigned
+ */
+export async function removeCardMember(cardId: string, userId: string) {
+    try {
+        await plankaRequest(
+            `/api/cards/${cardId}/card-memberships/userId:${userId}`,
+            {
+                method: "DELETE",
+            },
+        );
+        invalidateBoardSnapshots({ cardId });
+        recordUndo(
+            `Assign user ${userId} to card ${cardId} again`,
+            () => addCardMember(cardId, userId),
+        );
+
+        return { success: true };
+    } catch (error) {
+        throw new Error(
+            `Failed to remove member from card: ${
+                error instanceof Error ? error.message : String(error)
+            }`,
+        );
+    }
+}
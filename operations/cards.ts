@@ -8,6 +8,17 @@
 
 import { z } from "zod";
 import { plankaRequest } from "../common/utils.js";
+import { invalidateBoardSnapshots } from "../common/cache.js";
+import { getAgentUserId } from "../common/setup.js";
+import {
+    getListBoardSnapshot,
+    resolveCardContext,
+} from "../common/resolver.js";
+import {
+    isRecordingUndo,
+    pickChangedFields,
+    recordUndo,
+} from "../common/undo.js";
 import { PlankaCardSchema, PlankaStopwatchSchema } from "../common/types.js";
 
 // Schema definitions
@@ -29,9 +40,13 @@ export const CreateCardSchema = z.object({
 /**
  * Schema for retrieving cards from a list
  * @property {string} listId - The ID of the list to get cards from
+ * @property {string} [assignee] - Only return cards assigned to this user (ID, username, email or "me")
  */
 export const GetCardsSchema = z.object({
     listId: z.string().describe("List ID"),
+    assignee: z.string().optional().describe(
+        "Only cards assigned to this user (ID, username, email or \"me\")",
+    ),
 });
 
 /**
@@ -99,7 +114,8 @@ export const ResetCardStopwatchSchema = z.object({
 });
 
 // Type exports
-export type CreateCardOptions = z.infer<typeof CreateCardSchema>;
+// The input type, so callers may leave out `type` (default: project)
+export type CreateCardOptions = z.input<typeof CreateCardSchema>;
 export type UpdateCardOptions = z.infer<typeof UpdateCardSchema>;
 export type MoveCardOptions = z.infer<typeof MoveCardSchema>;
 export type DuplicateCardOptions = z.infer<typeof DuplicateCardSchema>;
@@ -149,6 +165,7 @@ export async function createCard(options: CreateCardOptions) {
                 },
             },
         );
+        invalidateBoardSnapshots({ listId: options.listId });
         const parsedResponse = CardResponseSchema.parse(response);
         return parsedResponse.item;
     } catch (error) {
@@ -164,88 +181,52 @@ export async function createCard(options: CreateCardOptions) {
  * Retrieves all cards for a specific list
  *
  * @param {string} listId - The ID of the list to get cards from
+ * @param {string} [assignee] - Only return cards assigned to this user: an ID, username, email, or "me" for the agent user
  * @returns {Promise<Array<object>>} Array of cards in the list
+ * @throws {PlankaResourceNotFoundError} If the list does not exist
+ * @throws {Error} If the assignee is not a member of the board
  */
-export async function getCards(listId: string) {
-    try {
-        // Get all projects which includes boards
-        const projectsResponse = await plankaRequest(`/api/projects`);
-
-        if (
-            !projectsResponse ||
-            typeof projectsResponse !== "object" ||
-            !("included" in projectsResponse) ||
-            !projectsResponse.included ||
-            typeof projectsResponse.included !== "object"
-        ) {
-            return [];
-        }
-
-        const included = projectsResponse.included as Record<string, unknown>;
-
-        // Get all boards
-        if (!("boards" in included) || !Array.isArray(included.boards)) {
-            return [];
-        }
-
-        const boards = included.boards;
-
-        // Check each board for cards with the matching list ID
-        for (const board of boards) {
-            if (
-                typeof board !== "object" || board === null || !("id" in board)
-            ) {
-                continue;
-            }
-
-            const boardId = board.id as string;
-
-            // Get the board details which includes cards
-            const boardResponse = await plankaRequest(`/api/boards/${boardId}`);
-
-            if (
-                !boardResponse ||
-                typeof boardResponse !== "object" ||
-                !("included" in boardResponse) ||
-                !boardResponse.included ||
-                typeof boardResponse.included !== "object"
-            ) {
-                continue;
-            }
-
-            const boardIncluded = boardResponse.included as Record<
-                string,
-                unknown
-            >;
-
-            if (
-                !("cards" in boardIncluded) ||
-                !Array.isArray(boardIncluded.cards)
-            ) {
-                continue;
-            }
-
-            const cards = boardIncluded.cards;
-
-            // Filter cards by list ID
-            const matchingCards = cards.filter((card) =>
-                typeof card === "object" &&
-                card !== null &&
-                "listId" in card &&
-                card.listId === listId
-            );
-
-            if (matchingCards.length > 0) {
-                return matchingCards;
-            }
-        }
+export async function getCards(listId: string, assignee?: string) {
+    // Resolve the board owning the list and read its cards from the snapshot
+    const boardSnapshot = await getListBoardSnapshot(listId);
+
+    const cards = (boardSnapshot.included?.cards ?? []).filter((card) =>
+        typeof card === "object" &&
+        card !== null &&
+        card.listId === listId
+    );
+    if (!assignee) {
+        return cards;
+    }
 
-        // If we couldn't find any cards for this list ID
-        return [];
-    } catch (error) {
-        // If all else fails, return an empty array
-        return [];
+    const normalizedAssignee = assignee.trim().toLowerCase();
+    const users = boardSnapshot.included?.users ?? [];
+    // Anything other than "me", a username or an email must be the ID of a
+    // board member, so a typo is reported instead of matching no cards
+    const memberIds = new Set([
+        ...users.map((user: any) => user.id),
+        ...(boardSnapshot.included?.boardMemberships ?? []).map((
+            membership: any,
+        ) => membership.userId),
+    ]);
+    const userId = normalizedAssignee === "me"
+        ? await getAgentUserId()
+        : users.find((user: any) =>
+            [user.username, user.email].some((value) =>
+                value?.toLowerCase() === normalizedAssignee
+            )
+        )?.id ?? (memberIds.has(assignee.trim()) ? assignee.trim() : null);
+    if (!userId) {
+        throw new Error(
+            `Unknown assignee "${assignee}": expected "me" or the ID, username or email of a board member`,
+        );
     }
+    const assignedCardIds = new Set(
+        (boardSnapshot.included?.cardMemberships ?? [])
+            .filter((membership: any) => membership.userId === userId)
+            .map((membership: any) => membership.cardId),
+    );
+    return cards.filter((card) => assignedCardIds.has(card.id));
 }
 
 /**
@@ -271,11 +252,21 @@ export async function updateCard(
     id: string,
     options: Partial<Omit<CreateCardOptions, "listId">>,
 ) {
+    const before = isRecordingUndo() ? await getCard(id) : null;
     const response = await plankaRequest(`/api/cards/${id}`, {
         method: "PATCH",
         body: options,
     });
+    invalidateBoardSnapshots({ cardId: id });
     const parsedResponse = CardResponseSchema.parse(response);
+
+    if (before) {
+        const previous = pickChangedFields(before, options);
+        recordUndo(
+            `Restore ${Object.keys(previous).join(", ")} of card "${before.name}" (${id})`,
+            () => updateCard(id, previous),
+        );
+    }
     return parsedResponse.item;
 }
 
@@ -297,6 +288,10 @@ export async function moveCard(
     projectId?: string,
 ) {
     try {
+        const before = isRecordingUndo()
+            ? await resolveCardContext(cardId)
+            : null;
+
         // Use the PATCH endpoint to update the card with the new list ID and position
         const response = await plankaRequest(`/api/cards/${cardId}`, {
             method: "PATCH",
@@ -307,9 +302,27 @@ export async function moveCard(
                 projectId,
             },
         });
+        invalidateBoardSnapshots({ cardId, listId, boardId });
 
         // Parse and return the updated card
         const parsedResponse = CardResponseSchema.parse(response);
+
+        if (before) {
+            const { card, list, board, project } = before;
+            recordUndo(
+                `Move card "${card.name}" (${cardId}) back to list "${
+                    list?.name ?? card.listId
+                }"`,
+                () =>
+                    moveCard(
+                        cardId,
+                        card.listId,
+                        card.position,
+                        boardId ? board.id : undefined,
+                        projectId ? project?.id : undefined,
+                    ),
+            );
+        }
         return parsedResponse.item;
     } catch (error) {
         throw new Error(
@@ -371,6 +384,7 @@ export async function deleteCard(id: string) {
     await plankaRequest(`/api/cards/${id}`, {
         method: "DELETE",
     });
+    invalidateBoardSnapshots({ cardId: id });
     return { success: true };
 }
 
@@ -403,6 +417,7 @@ export async function startCardStopwatch(id: string) {
             method: "PATCH",
             body: { stopwatch },
         });
+        invalidateBoardSnapshots({ cardId: id });
 
         const parsedResponse = CardResponseSchema.parse(response);
         return parsedResponse.item;
@@ -451,6 +466,7 @@ export async function stopCardStopwatch(id: string) {
             method: "PATCH",
             body: { stopwatch },
         });
+        invalidateBoardSnapshots({ cardId: id });
 
         const parsedResponse = CardResponseSchema.parse(response);
         return parsedResponse.item;
@@ -526,6 +542,7 @@ export async function resetCardStopwatch(id: string) {
             method: "PATCH",
             body: { stopwatch: null },
         });
+        invalidateBoardSnapshots({ cardId: id });
 
         const parsedResponse = CardResponseSchema.parse(response);
         return parsedResponse.item;
@@ -7,6 +7,11 @@
 
 import { z } from "zod";
 import { plankaRequest } from "../common/utils.js";
+import {
+    clearSnapshotCache,
+    invalidateBoardSnapshots,
+} from "../common/cache.js";
+import { isRecordingUndo, recordUndo } from "../common/undo.js";
 
 // Schema definitions
 /**
@@ -88,6 +93,11 @@ const CommentActionResponseSchema = z.object({
     included: z.record(z.any()).optional(),
 });
 
+// Only the card is needed from a deleted comment
+const DeletedCommentResponseSchema = z.object({
+    item: z.object({ cardId: z.string() }),
+});
+
 // Function implementations
 /**
  * Creates a new comment on a card
@@ -109,6 +119,8 @@ export async function createComment(options: CreateCommentOptions) {
                 },
             },
         );
+        // Cards carry a comment counter
+        invalidateBoardSnapshots({ cardId: options.cardId });
         const parsedResponse = CommentActionResponseSchema.parse(response);
         return parsedResponse.item;
     } catch (error) {
@@ -196,17 +208,26 @@ export async function getComment(id: string, cardId: string) {
 /**
  * Updates a comment's text content
  *
+ * The edit is only recorded for undo if the card is known, since Planka
+ * has no endpoint to read a single comment and the previous text could not
+ * be restored otherwise.
+ *
  * @param {string} id - The ID of the comment to update
  * @param {Partial<Omit<CreateCommentOptions, "cardId">>} options - The properties to update
  * @param {string} options.text - The new text content for the comment
+ * @param {string} [cardId] - The ID of the card containing the comment
  * @returns {Promise<object>} The updated comment
  * @throws {Error} If updating the comment fails
  */
 export async function updateComment(
     id: string,
     options: Partial<Omit<CreateCommentOptions, "cardId">>,
+    cardId?: string,
 ) {
     try {
+        const before = isRecordingUndo() && cardId
+            ? await getComment(id, cardId)
+            : null;
         const response = await plankaRequest(`/api/comments/${id}`, {
             method: "PATCH",
             body: {
@@ -214,6 +235,14 @@ export async function updateComment(
             },
         });
         const parsedResponse = CommentActionResponseSchema.parse(response);
+        invalidateBoardSnapshots({ cardId: parsedResponse.item.cardId });
+
+        if (before) {
+            recordUndo(
+                `Restore the previous text of comment ${id}`,
+                () => updateComment(id, { text: before.data.text }, cardId),
+            );
+        }
         return parsedResponse.item;
     } catch (error) {
         throw new Error(
@@ -233,9 +262,15 @@ export async function updateComment(
  */
 export async function deleteComment(id: string) {
     try {
-        await plankaRequest(`/api/comments/${id}`, {
+        const response = await plankaRequest(`/api/comments/${id}`, {
             method: "DELETE",
         });
+        const deleted = DeletedCommentResponseSchema.safeParse(response);
+        if (deleted.success) {
+            invalidateBoardSnapshots({ cardId: deleted.data.item.cardId });
+        } else {
+            clearSnapshotCache();
+        }
         return { success: true };
     } catch (error) {
         throw new Error(
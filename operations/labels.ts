@@ -8,7 +8,9 @@
 
 import { z } from "zod";
 import { plankaRequest } from "../common/utils.js";
+import { getBoardSnapshot, invalidateBoardSnapshots } from "../common/cache.js";
 import { PlankaLabelSchema } from "../common/types.js";
+import { recordUndo } from "../common/undo.js";
 
 /**
  * Valid color options for labels in Planka
@@ -179,6 +181,7 @@ export async function createLabel(options: CreateLabelOptions) {
                 },
             },
         );
+        invalidateBoardSnapshots({ boardId: options.boardId });
         const parsedResponse = LabelResponseSchema.parse(response);
         return parsedResponse.item;
     } catch (error) {
@@ -199,7 +202,7 @@ export async function createLabel(options: CreateLabelOptions) {
 export async function getLabels(boardId: string) {
     try {
         // Get the board which includes labels in the response
-        const response = await plankaRequest(`/api/boards/${boardId}`);
+        const response = await getBoardSnapshot(boardId);
 
         // Check if the response has the expected structure
         if (
@@ -242,6 +245,7 @@ export async function updateLabel(
             method: "PATCH",
             body: options,
         });
+        invalidateBoardSnapshots({ labelId: id });
         const parsedResponse = LabelResponseSchema.parse(response);
         return parsedResponse.item;
     } catch (error) {
@@ -264,6 +268,7 @@ export async function deleteLabel(id: string) {
         await plankaRequest(`/api/labels/${id}`, {
             method: "DELETE",
         });
+        invalidateBoardSnapshots({ labelId: id });
         return { success: true };
     } catch (error) {
         throw new Error(
@@ -293,6 +298,11 @@ export async function addLabelToCard(cardId: string, labelId: string) {
                 },
             },
         );
+        invalidateBoardSnapshots({ cardId });
+        recordUndo(
+            `Remove label ${labelId} from card ${cardId}`,
+            () => removeLabelFromCard(cardId, labelId),
+        );
 
         return { success: true };
     } catch (error) {
@@ -320,6 +330,11 @@ export async function removeLabelFromCard(cardId: string, labelId: string) {
                 method: "DELETE",
             },
         );
+        invalidateBoardSnapshots({ cardId });
+        recordUndo(
+            `Add label ${labelId} back to card ${cardId}`,
+            () => addLabelToCard(cardId, labelId),
+        );
 
         return { success: true };
     } catch (error) {
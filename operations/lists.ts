@@ -7,6 +7,13 @@
 
 import { z } from "zod";
 import { plankaRequest } from "../common/utils.js";
+import { getBoardSnapshot, invalidateBoardSnapshots } from "../common/cache.js";
+import { forgetList } from "../common/resolver.js";
+import {
+    isRecordingUndo,
+    pickChangedFields,
+    recordUndo,
+} from "../common/undo.js";
 import { PlankaListSchema } from "../common/types.js";
 
 // Schema definitions
@@ -95,6 +102,7 @@ export async function createList(options: CreateListOptions) {
                 },
             },
         );
+        invalidateBoardSnapshots({ boardId: options.boardId });
         const parsedResponse = ListResponseSchema.parse(response);
         return parsedResponse.item;
     } catch (error) {
@@ -115,7 +123,7 @@ export async function createList(options: CreateListOptions) {
 export async function getLists(boardId: string) {
     try {
         // Get the board which includes lists in the response
-        const response = await plankaRequest(`/api/boards/${boardId}`);
+        const response = await getBoardSnapshot(boardId);
 
         // Check if the response has the expected structure
         if (
@@ -169,11 +177,21 @@ export async function updateList(
     id: string,
     options: Partial<Omit<CreateListOptions, "boardId">>,
 ) {
+    const before = isRecordingUndo() ? await getList(id) : null;
     const response = await plankaRequest(`/api/lists/${id}`, {
         method: "PATCH",
         body: options,
     });
+    invalidateBoardSnapshots({ listId: id });
     const parsedResponse = ListResponseSchema.parse(response);
+
+    if (before) {
+        const previous = pickChangedFields(before, options);
+        recordUndo(
+            `Restore ${Object.keys(previous).join(", ")} of list "${before.name}" (${id})`,
+            () => updateList(id, previous),
+        );
+    }
     return parsedResponse.item;
 }
 
@@ -187,5 +205,7 @@ export async function deleteList(id: string) {
     await plankaRequest(`/api/lists/${id}`, {
         method: "DELETE",
     });
+    invalidateBoardSnapshots({ listId: id });
+    forgetList(id);
     return { success: true };
 }
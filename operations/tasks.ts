@@ -6,7 +6,9 @@
  * - Task = An individual checkable item within a task list (e.g., "✓ Verify rate limiting")
  *
  * This module provides functions for interacting with both task lists and tasks in Planka.
- * 
+ * The `*TaskList(s)` functions operate on task lists (`PlankaTaskList`), while
+ * the `*TaskInTaskList` functions operate on individual tasks (`PlankaTask`).
+ *
  * Planka API Structure:
  * - POST /api/cards/:cardId/task-lists - Create task list
  * - POST /api/task-lists/:taskListId/tasks - Create task within task list
@@ -19,90 +21,155 @@
 
 import { z } from "zod";
 import { plankaRequest } from "../common/utils.js";
-import { PlankaTaskSchema } from "../common/types.js";
+import { PlankaResourceNotFoundError } from "../common/errors.js";
+import {
+    findCachedBoardSnapshot,
+    invalidateBoardSnapshots,
+} from "../common/cache.js";
+import {
+    indexTaskRecords,
+    resolveTaskListCardId,
+    resolveTaskLocation,
+} from "../common/resolver.js";
+import { isRecordingUndo, recordUndo } from "../common/undo.js";
+import {
+    PlankaTask,
+    PlankaTaskList,
+    PlankaTaskListSchema,
+    PlankaTaskListWithTasks,
+    PlankaTaskSchema,
+} from "../common/types.js";
 
 // Schema definitions
 /**
- * Schema for creating a new task
- * @property {string} cardId - The ID of the card to create the task in
- * @property {string} name - The name of the task
- * @property {number} [position] - The position of the task in the card (default: 65535)
+ * Schema for creating a new task list
+ * @property {string} cardId - The ID of the card to create the task list in
+ * @property {string} name - The name of the task list
+ * @property {number} [position] - The position of the task list in the card (default: 65535)
  */
-export const CreateTaskSchema = z.object({
+export const CreateTaskListSchema = z.object({
     cardId: z.string().describe("Card ID"),
-    name: z.string().describe("Task name"),
-    position: z.number().optional().describe("Task position (default: 65535)"),
+    name: z.string().describe("Task list name"),
+    position: z.number().optional().describe(
+        "Task list position (default: 65535)",
+    ),
 });
 
 /**
- * Schema for batch creating multiple tasks
- * @property {Array<CreateTaskSchema>} tasks - Array of tasks to create
+ * Schema for batch creating multiple task lists
+ * @property {Array<CreateTaskListSchema>} tasks - Array of task lists to create
  */
-export const BatchCreateTasksSchema = z.object({
-    tasks: z.array(CreateTaskSchema).describe("Array of tasks to create"),
+export const BatchCreateTaskListsSchema = z.object({
+    tasks: z.array(CreateTaskListSchema).describe(
+        "Array of task lists to create",
+    ),
 });
 
 /**
- * Schema for retrieving tasks from a card
- * @property {string} cardId - The ID of the card to get tasks from
+ * Schema for retrieving the task lists of a card
+ * @property {string} cardId - The ID of the card to get task lists from
  */
-export const GetTasksSchema = z.object({
+export const GetTaskListsSchema = z.object({
     cardId: z.string().describe("Card ID"),
 });
 
 /**
- * Schema for retrieving a specific task
- * @property {string} id - The ID of the task to retrieve
- * @property {string} [cardId] - The ID of the card containing the task
+ * Schema for retrieving a specific task list
+ * @property {string} id - The ID of the task list to retrieve
+ * @property {string} [cardId] - The ID of the card containing the task list
  */
-export const GetTaskSchema = z.object({
-    id: z.string().describe("Task ID"),
-    cardId: z.string().optional().describe("Card ID containing the task"),
+export const GetTaskListSchema = z.object({
+    id: z.string().describe("Task list ID"),
+    cardId: z.string().optional().describe("Card ID containing the task list"),
+});
+
+/**
+ * Schema for updating a task list
+ * @property {string} id - The ID of the task list to update
+ * @property {string} [name] - The new name for the task list
+ * @property {number} [position] - The new position for the task list
+ */
+export const UpdateTaskListSchema = z.object({
+    id: z.string().describe("Task list ID"),
+    name: z.string().optional().describe("Task list name"),
+    position: z.number().optional().describe("Task list position"),
+});
+
+/**
+ * Schema for deleting a task list
+ * @property {string} id - The ID of the task list to delete
+ */
+export const DeleteTaskListSchema = z.object({
+    id: z.string().describe("Task list ID"),
+});
+
+/**
+ * Schema for creating a task within a task list
+ * @property {string} taskListId - The ID of the task list to add the task to
+ * @property {string} name - The name of the task
+ * @property {number} [position] - The position of the task (default: 65535)
+ * @property {boolean} [isCompleted] - Whether the task is completed (default: false)
+ */
+export const CreateTaskInTaskListSchema = z.object({
+    taskListId: z.string().describe("Task list ID"),
+    name: z.string().describe("Task name"),
+    position: z.number().optional().describe("Task position (default: 65535)"),
+    isCompleted: z.boolean().optional().describe(
+        "Whether the task is completed (default: false)",
+    ),
 });
 
 /**
- * Schema for updating a task
+ * Schema for updating a task within a task list
  * @property {string} id - The ID of the task to update
  * @property {string} [name] - The new name for the task
- * @property {boolean} [isCompleted] - Whether the task is completed
  * @property {number} [position] - The new position for the task
+ * @property {boolean} [isCompleted] - Whether the task is completed
  */
-export const UpdateTaskSchema = z.object({
+export const UpdateTaskInTaskListSchema = z.object({
     id: z.string().describe("Task ID"),
     name: z.string().optional().describe("Task name"),
+    position: z.number().optional().describe("Task position"),
     isCompleted: z.boolean().optional().describe(
         "Whether the task is completed",
     ),
-    position: z.number().optional().describe("Task position"),
 });
 
+// Type exports
 /**
- * Schema for deleting a task
- * @property {string} id - The ID of the task to delete
+ * Type definition for task list creation options
  */
-export const DeleteTaskSchema = z.object({
-    id: z.string().describe("Task ID"),
-});
+export type CreateTaskListOptions = z.infer<typeof CreateTaskListSchema>;
 
-// Type exports
 /**
- * Type definition for task creation options
+ * Type definition for batch task list creation options
+ */
+export type BatchCreateTaskListsOptions = z.infer<
+    typeof BatchCreateTaskListsSchema
+>;
+
+/**
+ * Type definition for task list update options
  */
-export type CreateTaskOptions = z.infer<typeof CreateTaskSchema>;
+export type UpdateTaskListOptions = z.infer<typeof UpdateTaskListSchema>;
 
 /**
- * Type definition for batch task creation options
+ * Type definition for task creation options
  */
-export type BatchCreateTasksOptions = z.infer<typeof BatchCreateTasksSchema>;
+export type CreateTaskInTaskListOptions = z.infer<
+    typeof CreateTaskInTaskListSchema
+>;
 
 /**
  * Type definition for task update options
  */
-export type UpdateTaskOptions = z.infer<typeof UpdateTaskSchema>;
+export type UpdateTaskInTaskListOptions = z.infer<
+    typeof UpdateTaskInTaskListSchema
+>;
 
 // Response schemas
-const TasksResponseSchema = z.object({
-    items: z.array(PlankaTaskSchema),
+const TaskListResponseSchema = z.object({
+    item: PlankaTaskListSchema,
     included: z.record(z.any()).optional(),
 });
 
@@ -111,8 +178,32 @@ const TaskResponseSchema = z.object({
     included: z.record(z.any()).optional(),
 });
 
-// Map to store task ID to card ID mapping
-const taskCardIdMap: Record<string, string> = {};
+/**
+ * Groups the tasks of a card under its task lists
+ *
+ * Accepts the `included` data of a card or board response, which lists task
+ * lists and tasks side by side.
+ *
+ * @param {string} cardId - The ID of the card
+ * @param {Record<string, any[]>} [included] - The related records of a card or board response
+ * @returns {PlankaTaskListWithTasks[]} The card's task lists, each with its tasks, ordered by position
+ */
+export function nestTaskLists(
+    cardId: string,
+    included?: Record<string, any[]>,
+): PlankaTaskListWithTasks[] {
+    const byPosition = (a: any, b: any) => a.position - b.position;
+    const tasks = included?.tasks ?? [];
+    return (included?.taskLists ?? [])
+        .filter((taskList: any) => taskList.cardId === cardId)
+        .sort(byPosition)
+        .map((taskList: any) => ({
+            ...taskList,
+            tasks: tasks
+                .filter((task: any) => task.taskListId === taskList.id)
+                .sort(byPosition),
+        }));
+}
 
 // Function implementations
 /**
@@ -122,13 +213,11 @@ const taskCardIdMap: Record<string, string> = {};
  * @param {string} params.cardId - The ID of the card to create the task list in
  * @param {string} params.name - The name of the task list (e.g., "Testing Checklist")
  * @param {number} params.position - The position of the task list in the card
- * @returns {Promise<object>} The created task list
+ * @returns {Promise<PlankaTaskList>} The created task list
  */
-export async function createTask(params: {
-    cardId: string;
-    name: string;
-    position?: number;
-}) {
+export async function createTaskList(
+    params: CreateTaskListOptions,
+): Promise<PlankaTaskList> {
     try {
         const { cardId, name, position = 65535 } = params;
 
@@ -139,13 +228,9 @@ export async function createTask(params: {
                 body: { name, position },
             },
         );
+        invalidateBoardSnapshots({ cardId });
 
-        // Store the task list ID to card ID mapping for getTask
-        if (response.item && response.item.id) {
-            taskCardIdMap[response.item.id] = cardId;
-        }
-
-        return response.item;
+        return TaskListResponseSchema.parse(response).item;
     } catch (error) {
         console.error("Error creating task list:", error);
         throw new Error(
@@ -157,13 +242,15 @@ export async function createTask(params: {
 }
 
 /**
- * Creates multiple tasks for cards in a single operation
+ * Creates multiple task lists for cards in a single operation
  *
- * @param {BatchCreateTasksOptions} options - The batch create tasks options
+ * @param {BatchCreateTaskListsOptions} options - The batch create task lists options
  * @returns {Promise<{results: any[], successes: any[], failures: TaskError[]}>} The results of the batch operation
  * @throws {Error} If the batch operation fails completely
  */
-export async function batchCreateTasks(options: BatchCreateTasksOptions) {
+export async function batchCreateTaskLists(
+    options: BatchCreateTaskListsOptions,
+) {
     try {
         const results: Array<any> = [];
         const successes: Array<any> = [];
@@ -185,12 +272,12 @@ export async function batchCreateTasks(options: BatchCreateTasksOptions) {
         /**
          * Interface for task operation error
          * @property {number} index - The index of the task in the original array
-         * @property {CreateTaskOptions} task - The task that failed
+         * @property {CreateTaskListOptions} task - The task list that failed
          * @property {string} error - The error message
          */
         interface TaskError {
             index: number;
-            task: CreateTaskOptions;
+            task: CreateTaskListOptions;
             error: string;
         }
 
@@ -204,7 +291,7 @@ export async function batchCreateTasks(options: BatchCreateTasksOptions) {
             }
 
             try {
-                const result = await createTask(task);
+                const result = await createTaskList(task);
                 results.push({
                     success: true,
                     result,
@@ -233,7 +320,7 @@ export async function batchCreateTasks(options: BatchCreateTasksOptions) {
         };
     } catch (error) {
         throw new Error(
-            `Failed to batch create tasks: ${
+            `Failed to batch create task lists: ${
                 error instanceof Error ? error.message : String(error)
             }`,
         );
@@ -241,29 +328,31 @@ export async function batchCreateTasks(options: BatchCreateTasksOptions) {
 }
 
 /**
- * Retrieves all task lists for a specific card
+ * Retrieves all task lists of a card, each with its tasks
  *
  * @param {string} cardId - The ID of the card to get task lists from
- * @returns {Promise<Array<object>>} Array of task lists in the card
+ * @returns {Promise<PlankaTaskListWithTasks[]>} The card's task lists with their tasks
  */
-export async function getTasks(cardId: string) {
+export async function getTaskLists(
+    cardId: string,
+): Promise<PlankaTaskListWithTasks[]> {
     try {
-        // Get the card details which includes task lists
+        // Reuse a cached board snapshot if one already contains the card
+        const boardSnapshot = findCachedBoardSnapshot((snapshot) =>
+            !!snapshot.included?.cards?.some((card: any) => card.id === cardId)
+        );
+        if (boardSnapshot?.included?.taskLists) {
+            return nestTaskLists(cardId, boardSnapshot.included);
+        }
+
+        // Get the card details which include its task lists and tasks
         const response = await plankaRequest(`/api/cards/${cardId}`) as {
             item: any;
-            included?: {
-                tasks?: any[];
-                taskLists?: any[];
-            };
+            included?: Record<string, any[]>;
         };
 
-        // Extract task lists from the card response (try both field names)
-        const taskLists = response?.included?.taskLists || response?.included?.tasks;
-        if (taskLists && Array.isArray(taskLists)) {
-            return taskLists;
-        }
-
-        return [];
+        indexTaskRecords(response?.included);
+        return nestTaskLists(cardId, response?.included);
     } catch (error) {
         console.error(`Error getting task lists for card ${cardId}:`, error);
         // If there's an error, return an empty array
@@ -272,41 +361,25 @@ export async function getTasks(cardId: string) {
 }
 
 /**
- * Retrieves a specific task list by ID
+ * Retrieves a specific task list by ID, with its tasks
  *
  * @param {string} id - The ID of the task list to retrieve
- * @param {string} [cardId] - Optional card ID to help find the task list
- * @returns {Promise<object>} The requested task list
+ * @param {string} [cardId] - Optional card ID, saves looking up the task list's card
+ * @returns {Promise<PlankaTaskListWithTasks>} The requested task list
  */
-export async function getTask(id: string, cardId?: string) {
+export async function getTaskList(
+    id: string,
+    cardId?: string,
+): Promise<PlankaTaskListWithTasks> {
     try {
-        // Task lists in Planka are always part of a card, so we need the card ID
-        const taskCardId = cardId || taskCardIdMap[id];
+        // Task lists in Planka are always part of a card
+        const taskCardId = cardId || await resolveTaskListCardId(id);
 
-        if (!taskCardId) {
-            throw new Error(
-                "Card ID is required to get a task list. Either provide it directly or create the task list first.",
-            );
-        }
-
-        // Get the card details which includes task lists
-        const response = await plankaRequest(`/api/cards/${taskCardId}`) as {
-            item: any;
-            included?: {
-                tasks?: any[];
-                taskLists?: any[];
-            };
-        };
-
-        const taskLists = response?.included?.taskLists || response?.included?.tasks;
-        if (!taskLists || !Array.isArray(taskLists)) {
-            throw new Error(`Failed to get task lists for card ${taskCardId}`);
-        }
+        // Get the card's task lists with their tasks
+        const taskLists = await getTaskLists(taskCardId);
 
         // Find the task list with the matching ID
-        const taskList = taskLists.find((tl: any) =>
-            tl.id === id
-        );
+        const taskList = taskLists.find((tl) => tl.id === id);
 
         if (!taskList) {
             throw new Error(
@@ -329,18 +402,19 @@ export async function getTask(id: string, cardId?: string) {
  * Updates a task list's properties
  *
  * @param {string} id - The ID of the task list to update
- * @param {Partial<Omit<CreateTaskOptions, "cardId">>} options - The properties to update
+ * @param {Omit<UpdateTaskListOptions, "id">} options - The properties to update (name, position)
  * @returns {Promise<object>} The updated task list
  */
-export async function updateTask(
+export async function updateTaskList(
     id: string,
-    options: Partial<Omit<CreateTaskOptions, "cardId">>,
+    options: Omit<UpdateTaskListOptions, "id">,
 ) {
     const response = await plankaRequest(`/api/task-lists/${id}`, {
         method: "PATCH",
         body: options,
     });
-    const parsedResponse = TaskResponseSchema.parse(response);
+    invalidateBoardSnapshots({ taskListId: id });
+    const parsedResponse = TaskListResponseSchema.parse(response);
     return parsedResponse.item;
 }
 
@@ -350,10 +424,33 @@ export async function updateTask(
  * @param {string} id - The ID of the task list to delete
  * @returns {Promise<{success: boolean}>} Success indicator
  */
-export async function deleteTask(id: string) {
+export async function deleteTaskList(id: string) {
+    const before = isRecordingUndo() ? await getTaskList(id) : null;
     await plankaRequest(`/api/task-lists/${id}`, {
         method: "DELETE",
     });
+    invalidateBoardSnapshots({ taskListId: id });
+
+    if (before) {
+        recordUndo(
+            `Recreate task list "${before.name}" with ${before.tasks.length} task(s) on card ${before.cardId}`,
+            async () => {
+                const taskList = await createTaskList({
+                    cardId: before.cardId,
+                    name: before.name,
+                    position: before.position,
+                });
+                for (const task of before.tasks) {
+                    await createTaskInTaskList({
+                        taskListId: taskList.id,
+                        name: task.name,
+                        position: task.position,
+                        isCompleted: task.isCompleted,
+                    });
+                }
+            },
+        );
+    }
     return { success: true };
 }
 
@@ -365,14 +462,11 @@ export async function deleteTask(id: string) {
  * @param {string} params.name - The name of the task
  * @param {number} [params.position] - The position of the task (default: 65535)
  * @param {boolean} [params.isCompleted] - Whether the task is completed (default: false)
- * @returns {Promise<object>} The created task
+ * @returns {Promise<PlankaTask>} The created task
  */
-export async function createTaskInTaskList(params: {
-    taskListId: string;
-    name: string;
-    position?: number;
-    isCompleted?: boolean;
-}) {
+export async function createTaskInTaskList(
+    params: CreateTaskInTaskListOptions,
+): Promise<PlankaTask> {
     try {
         const { taskListId, name, position = 65535, isCompleted = false } = params;
 
@@ -383,8 +477,9 @@ export async function createTaskInTaskList(params: {
                 body: { name, position, isCompleted },
             },
         );
+        invalidateBoardSnapshots({ taskListId });
 
-        return response.item;
+        return TaskResponseSchema.parse(response).item;
     } catch (error) {
         console.error("Error creating task in task list:", error);
         throw new Error(
@@ -395,6 +490,25 @@ export async function createTaskInTaskList(params: {
     }
 }
 
+/**
+ * Retrieves an individual task by ID
+ *
+ * @param {string} id - The ID of the task to retrieve
+ * @returns {Promise<PlankaTask>} The requested task
+ * @throws {PlankaResourceNotFoundError} If the task does not exist
+ */
+export async function getTaskInTaskList(id: string): Promise<PlankaTask> {
+    const { taskListId, cardId } = await resolveTaskLocation(id);
+    const taskLists = await getTaskLists(cardId);
+    const task = taskLists
+        .find((taskList) => taskList.id === taskListId)
+        ?.tasks.find((t) => t.id === id);
+    if (!task) {
+        throw new PlankaResourceNotFoundError(`Task ${id}`);
+    }
+    return task;
+}
+
 /**
  * Updates an individual task within a task list
  *
@@ -403,21 +517,18 @@ export async function createTaskInTaskList(params: {
  * @param {string} [options.name] - The name of the task
  * @param {number} [options.position] - The position of the task
  * @param {boolean} [options.isCompleted] - Whether the task is completed
- * @returns {Promise<object>} The updated task
+ * @returns {Promise<PlankaTask>} The updated task
  */
 export async function updateTaskInTaskList(
     id: string,
-    options: {
-        name?: string;
-        position?: number;
-        isCompleted?: boolean;
-    },
-) {
+    options: Omit<UpdateTaskInTaskListOptions, "id">,
+): Promise<PlankaTask> {
     const response = await plankaRequest(`/api/tasks/${id}`, {
         method: "PATCH",
         body: options,
     });
-    return (response as any).item;
+    invalidateBoardSnapshots({ taskId: id });
+    return TaskResponseSchema.parse(response).item;
 }
 
 /**
@@ -427,9 +538,24 @@ export async function updateTaskInTaskList(
  * @returns {Promise<{success: boolean}>} Success indicator
  */
 export async function deleteTaskInTaskList(id: string) {
+    const before = isRecordingUndo() ? await getTaskInTaskList(id) : null;
     await plankaRequest(`/api/tasks/${id}`, {
         method: "DELETE",
     });
+    invalidateBoardSnapshots({ taskId: id });
+
+    if (before) {
+        recordUndo(
+            `Recreate task "${before.name}" in task list ${before.taskListId}`,
+            () =>
+                createTaskInTaskList({
+                    taskListId: before.taskListId,
+                    name: before.name,
+                    position: before.position,
+                    isCompleted: before.isCompleted,
+                }),
+        );
+    }
     return { success: true };
 }
 
@@ -449,7 +575,7 @@ export async function createTaskListWithTasks(params: {
 }) {
     try {
         // First create the task list
-        const taskList = await createTask({
+        const taskList = await createTaskList({
             cardId: params.cardId,
             name: params.name,
         });
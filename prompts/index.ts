@@ -0,0 +1,9 @@
+/**
+ * @fileoverview Prompts module for the MCP Kanban server
+ *
+ * This module exports the MCP prompts that turn the workflow recipes from
+ * EXAMPLE_RULE.MD into prompts filled with live board and card state.
+ */
+
+// Export all prompts
+export * from "./kanban-prompts.js";
@@ -0,0 +1,448 @@
+/**
+ * @fileoverview MCP prompts for the Kanban development workflow
+ *
+ * These prompts ship the recipes from EXAMPLE_RULE.MD (card selection, task
+ * implementation, review hand-off and feature planning) so users no longer
+ * paste them into rules files. Each prompt loads the live board or card
+ * state and embeds it next to the instructions, with the IDs the agent needs
+ * for the follow-up tool calls.
+ *
+ * The steps only mention tool actions that are registered, and a prompt is
+ * left out when read-only mode or the tool allowlist disables the action it
+ * leads to.
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isActionAllowed } from "../common/access.js";
+import { getBoardSnapshot } from "../common/cache.js";
+import { getActionState, getBoardWorkflow } from "../common/workflow.js";
+import { getBoardSummary } from "../tools/board-summary.js";
+import { getCardDetails } from "../tools/card-details.js";
+
+// Number of recent comments shown in card prompts
+const RECENT_COMMENT_COUNT = 5;
+
+/**
+ * Numbers the steps of a prompt, skipping the disabled ones
+ *
+ * @param {(string[] | null)[]} steps - The lines of each step, or null to skip it; lines after the first continue the step
+ * @returns {string[]} The numbered lines
+ */
+function numberSteps(steps: (string[] | null)[]): string[] {
+    return steps
+        .filter((step): step is string[] => step !== null)
+        .flatMap(([first, ...rest], index) => [
+            `${index + 1}. ${first}`,
+            ...rest,
+        ]);
+}
+
+function step(enabled: boolean, ...lines: string[]): string[] | null {
+    return enabled ? lines : null;
+}
+
+function userMessage(text: string) {
+    return {
+        messages: [{
+            role: "user" as const,
+            content: { type: "text" as const, text },
+        }],
+    };
+}
+
+/**
+ * Maps each card of a board to the names of its labels
+ *
+ * @param {string} boardId - The ID of the board
+ * @returns {Promise<Map<string, string[]>>} Label names by card ID
+ */
+async function getCardLabelNames(
+    boardId: string,
+): Promise<Map<string, string[]>> {
+    const snapshot = await getBoardSnapshot(boardId);
+    const labels = snapshot.included?.labels ?? [];
+    const labelNames = new Map<string, string[]>();
+    for (const cardLabel of snapshot.included?.cardLabels ?? []) {
+        const label = labels.find((l: any) => l.id === cardLabel.labelId);
+        if (label?.name) {
+            labelNames.set(cardLabel.cardId, [
+                ...labelNames.get(cardLabel.cardId) ?? [],
+                label.name,
+            ]);
+        }
+    }
+    return labelNames;
+}
+
+function formatCardLine(card: any, labelNames: string[] = []): string {
+    const details = [`id: ${card.id}`];
+    if (labelNames.length > 0) {
+        details.push(`labels: ${labelNames.join(", ")}`);
+    }
+    if (card.tasks?.total) {
+        details.push(`tasks: ${card.tasks.completed}/${card.tasks.total}`);
+    }
+    if (card.dueDate) {
+        details.push(`due: ${card.dueDate}`);
+    }
+    return `  - ${card.name} (${details.join("; ")})`;
+}
+
+function formatLists(lists: any[], labelNames: Map<string, string[]>) {
+    return lists.map((list: any) =>
+        [
+            `- ${list.name} (list id: ${list.id}, ${list.cardCount} cards)`,
+            ...list.cards.map((card: any) =>
+                formatCardLine(card, labelNames.get(card.id))
+            ),
+        ].join("\n")
+    ).join("\n");
+}
+
+function formatCard(details: Awaited<ReturnType<typeof getCardDetails>>) {
+    const { card, list, board, taskItems, taskStats, comments, labels } =
+        details;
+    const lines = [
+        `Card: ${card.name} (id: ${card.id})`,
+        `Board: ${board?.name ?? "unknown"} (id: ${board?.id ?? "unknown"})`,
+        `List: ${list?.name ?? "unknown"}`,
+    ];
+    if (labels.length > 0) {
+        lines.push(
+            `Labels: ${labels.map((label: any) => label.name).join(", ")}`,
+        );
+    }
+    if (card.description) {
+        lines.push("", "Description:", card.description);
+    }
+
+    lines.push(
+        "",
+        `Tasks (${taskStats.completed}/${taskStats.total} completed):`,
+    );
+    if (taskItems.length === 0) {
+        lines.push("(no task lists)");
+    }
+    for (const taskList of taskItems) {
+        lines.push(`- ${taskList.name} (task list id: ${taskList.id})`);
+        for (const task of taskList.tasks) {
+            lines.push(
+                `  - [${task.isCompleted ? "x" : " "}] ${task.name} (task id: ${task.id})`,
+            );
+        }
+    }
+
+    lines.push("", "Recent comments (newest first):");
+    const recentComments = comments.slice(0, RECENT_COMMENT_COUNT);
+    if (recentComments.length === 0) {
+        lines.push("(no comments)");
+    }
+    for (const comment of recentComments) {
+        lines.push(`- ${comment.createdAt}: ${comment.data.text}`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Registers the Kanban workflow prompts on a server
+ *
+ * @param {McpServer} server - The server to register the prompts on
+ */
+export function registerKanbanPrompts(server: McpServer) {
+    const canGetDetails = isActionAllowed(
+        "mcp_kanban_card_manager",
+        "get_details",
+    );
+    const canStartWorking = isActionAllowed(
+        "mcp_kanban_workflow",
+        "start_working",
+    );
+    const canMarkCompleted = isActionAllowed(
+        "mcp_kanban_workflow",
+        "mark_completed",
+    );
+    const canMoveToTesting = isActionAllowed(
+        "mcp_kanban_workflow",
+        "move_to_testing",
+    );
+    const canStartStopwatch = isActionAllowed("mcp_kanban_stopwatch", "start");
+    const canStopStopwatch = isActionAllowed("mcp_kanban_stopwatch", "stop");
+    const canCreateTask = isActionAllowed(
+        "mcp_kanban_task_manager",
+        "create_task",
+    );
+    const canComment = isActionAllowed("mcp_kanban_comment_manager", "create");
+    const canLabel = isActionAllowed("mcp_kanban_label_manager", "add_to_card");
+    const canCreateCards = isActionAllowed(
+        "mcp_kanban_card_manager",
+        "create_with_tasks",
+    );
+
+    if (canStartWorking) {
+        registerPickNextCard(server, { canGetDetails, canStartStopwatch });
+    }
+    if (canMarkCompleted || canCreateTask || canComment || canLabel) {
+        registerReportProgress(server, {
+            canMarkCompleted,
+            canCreateTask,
+            canComment,
+            canLabel,
+        });
+    }
+    if (canMoveToTesting) {
+        registerRequestReview(server, { canStopStopwatch });
+    }
+    if (canCreateCards) {
+        registerPlanFeatureAsCards(server, { canLabel });
+    }
+}
+
+function registerPickNextCard(
+    server: McpServer,
+    { canGetDetails, canStartStopwatch }: {
+        canGetDetails: boolean;
+        canStartStopwatch: boolean;
+    },
+) {
+    server.prompt(
+        "pick_next_card",
+        "Choose the next card to work on from the live board state and start working on it",
+        {
+            boardId: z.string().describe("The ID of the board to pick from"),
+            focus: z.string().optional().describe(
+                "Optional preference, e.g. \"bugs first\" or a feature area",
+            ),
+        },
+        async ({ boardId, focus }) => {
+            const summary = await getBoardSummary({
+                boardId,
+                includeTaskDetails: true,
+                includeComments: false,
+            });
+            const labelNames = await getCardLabelNames(boardId);
+
+            return userMessage([
+                `Pick the next card to work on from the board "${summary.board.name}" and start working on it.`,
+                ...(focus ? [`Preference: ${focus}`] : []),
+                "",
+                "Current board state:",
+                formatLists(summary.lists, labelNames),
+                "",
+                `Suggested next action: ${summary.workflowState.nextActionSuggestion}`,
+                "",
+                "How to choose:",
+                ...numberSteps([
+                    [
+                        "Finish what is already started: cards in progress or sent back from review come first.",
+                    ],
+                    [
+                        "Then prefer cards labelled Urgent or Bug, then the top of the to-do lists.",
+                    ],
+                    step(
+                        canGetDetails,
+                        "Read the chosen card with mcp_kanban_card_manager({ action: \"get_details\", cardId }).",
+                    ),
+                ]),
+                "",
+                "How to start:",
+                ...numberSteps([
+                    [
+                        "mcp_kanban_workflow({ action: \"start_working\", cardId, comment }) with a comment like:",
+                        "   ▶️ Starting work on this card.",
+                        "   Initial assessment: [brief analysis]",
+                        "   Planned approach: [implementation plan]",
+                    ],
+                    step(
+                        canStartStopwatch,
+                        "mcp_kanban_stopwatch({ action: \"start\", id: cardId })",
+                    ),
+                    ["Tell me which card you picked and why."],
+                ]),
+            ].join("\n"));
+        },
+    );
+}
+
+function registerReportProgress(
+    server: McpServer,
+    { canMarkCompleted, canCreateTask, canComment, canLabel }: {
+        canMarkCompleted: boolean;
+        canCreateTask: boolean;
+        canComment: boolean;
+        canLabel: boolean;
+    },
+) {
+    server.prompt(
+        "report_progress",
+        "Record progress on a card: complete finished tasks, add discovered tasks and comment on what was done",
+        {
+            cardId: z.string().describe("The ID of the card being worked on"),
+            progress: z.string().optional().describe(
+                "Optional notes on what was done since the last update",
+            ),
+        },
+        async ({ cardId, progress }) => {
+            const details = await getCardDetails({ cardId });
+
+            return userMessage([
+                "Update the card below with the progress made so far.",
+                ...(progress ? ["", `What was done: ${progress}`] : []),
+                "",
+                formatCard(details),
+                "",
+                "Steps:",
+                ...numberSteps([
+                    step(
+                        canMarkCompleted,
+                        "Complete the tasks that are done: mcp_kanban_workflow({ action: \"mark_completed\", cardId, taskIds }) (use taskListIds to complete whole task lists).",
+                    ),
+                    step(
+                        canCreateTask,
+                        "Add tasks discovered along the way: mcp_kanban_task_manager({ action: \"create_task\", taskListId, name }).",
+                    ),
+                    step(
+                        canComment,
+                        "Comment on the card with mcp_kanban_comment_manager({ action: \"create\", cardId, text }) using:",
+                        "   ✅ Completed task: [task name]",
+                        "   Implementation details: [what was done]",
+                    ),
+                    step(
+                        canComment || canLabel,
+                        `If the work is blocked, ${
+                            [
+                                ...(canComment ? ["say so in the comment"] : []),
+                                ...(canLabel
+                                    ? [
+                                        "add the Blocked label with mcp_kanban_label_manager({ action: \"add_to_card\", cardId, labelId }) if the board has one",
+                                    ]
+                                    : []),
+                            ].join(" and ")
+                        }.`,
+                    ),
+                ]),
+            ].join("\n"));
+        },
+    );
+}
+
+function registerRequestReview(
+    server: McpServer,
+    { canStopStopwatch }: { canStopStopwatch: boolean },
+) {
+    server.prompt(
+        "request_review",
+        "Hand a card over for review: check its tasks, summarize the changes and move it to testing",
+        {
+            cardId: z.string().describe("The ID of the card to hand over"),
+            summary: z.string().optional().describe(
+                "Optional summary of the changes made",
+            ),
+        },
+        async ({ cardId, summary }) => {
+            const details = await getCardDetails({ cardId });
+            const workflow = await getBoardWorkflow(details.board.id);
+            const reviewState = workflow.states.find((state) =>
+                state.id === getActionState(workflow, "move_to_testing")
+            );
+            const openTasks = details.taskStats.total -
+                details.taskStats.completed;
+
+            return userMessage([
+                `Hand the card below over for review (${reviewState?.lists.join(" / ") ?? "testing"}).`,
+                ...(summary ? ["", `Summary of changes: ${summary}`] : []),
+                "",
+                formatCard(details),
+                "",
+                openTasks > 0
+                    ? `⚠️ ${openTasks} task(s) are still open. Complete them first, or explain in the review comment why they are left open.`
+                    : "All tasks are completed.",
+                "",
+                "Steps:",
+                ...numberSteps([
+                    step(
+                        canStopStopwatch,
+                        "mcp_kanban_stopwatch({ action: \"stop\", id: cardId })",
+                    ),
+                    [
+                        "mcp_kanban_workflow({ action: \"move_to_testing\", cardId, comment }) with a comment like:",
+                        "   🔍 Ready for review",
+                        "",
+                        "   Summary of changes:",
+                        "   - [major change 1]",
+                        "   - [major change 2]",
+                        "",
+                        "   Testing considerations:",
+                        "   - [area to test 1]",
+                    ],
+                    [
+                        "Wait for feedback; if the reviewer moves the card back, read their comments before continuing.",
+                    ],
+                ]),
+            ].join("\n"));
+        },
+    );
+}
+
+function registerPlanFeatureAsCards(
+    server: McpServer,
+    { canLabel }: { canLabel: boolean },
+) {
+    server.prompt(
+        "plan_feature_as_cards",
+        "Break a feature down into cards with task checklists on a board",
+        {
+            boardId: z.string().describe("The ID of the board to plan on"),
+            feature: z.string().describe("Description of the feature to plan"),
+        },
+        async ({ boardId, feature }) => {
+            const summary = await getBoardSummary({
+                boardId,
+                includeTaskDetails: false,
+                includeComments: false,
+            });
+            const labelNames = await getCardLabelNames(boardId);
+            const entryList = summary.lists.find((list: any) =>
+                summary.workflow.states[0].lists.some((name) =>
+                    name.toLowerCase() === list.name.toLowerCase()
+                )
+            ) ?? summary.lists[0];
+
+            return userMessage([
+                `Plan the following feature as cards on the board "${summary.board.name}":`,
+                "",
+                feature,
+                "",
+                "Existing lists and cards (avoid duplicating existing cards):",
+                formatLists(summary.lists, labelNames),
+                "",
+                `Available labels: ${
+                    summary.labels.map((label: any) =>
+                        `${label.name} (id: ${label.id})`
+                    ).join(", ") || "(none)"
+                }`,
+                "",
+                "Steps:",
+                ...numberSteps([
+                    [
+                        "Split the feature into cards that can each be finished and reviewed on their own (about a day of work each).",
+                    ],
+                    [
+                        `Create each card in ${
+                            entryList
+                                ? `"${entryList.name}" (list id: ${entryList.id})`
+                                : "the first list of the workflow"
+                        } with mcp_kanban_card_manager({ action: "create_with_tasks", listId, name, description, tasks }), giving it a description of the goal and a task for each step.`,
+                    ],
+                    step(
+                        canLabel,
+                        "Label the cards with mcp_kanban_label_manager({ action: \"add_to_card\", cardId, labelId }) where a label fits.",
+                    ),
+                    [
+                        "Reply with the created cards in the order they should be worked on.",
+                    ],
+                ]),
+            ].join("\n"));
+        },
+    );
+}
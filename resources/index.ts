@@ -0,0 +1,11 @@
+/**
+ * @fileoverview Resources module for the MCP Kanban server
+ *
+ * This module exports the read-only MCP resources that expose projects,
+ * boards, lists and cards as context clients can attach to a conversation,
+ * and the polling engine behind resource subscriptions.
+ */
+
+// Export all resources
+export * from "./planka-resources.js";
+export * from "./subscriptions.js";
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Read-only MCP resources for Planka entities
+ *
+ * Resources let clients attach project, board, list and card context to a
+ * conversation without spending tool calls. Every resource is JSON:
+ *
+ * - planka://projects - All projects with their boards
+ * - planka://project/{projectId} - A project with its boards
+ * - planka://board/{boardId} - A board with its lists, cards and labels
+ * - planka://board/{boardId}/summary - The board summary (statistics and workflow state)
+ * - planka://list/{listId} - A list with its cards
+ * - planka://card/{cardId} - The card details (tasks, comments, labels, members)
+ *
+ * Projects and boards are listed; lists and cards are only exposed as
+ * templates, since listing every card of every board would be too large.
+ */
+
+import {
+    McpServer,
+    ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getBoardSnapshot, getProjectsSnapshot } from "../common/cache.js";
+import { getListBoardSnapshot } from "../common/resolver.js";
+import { PlankaResourceNotFoundError } from "../common/errors.js";
+import { getBoardSummary } from "../tools/board-summary.js";
+import { getCardDetails } from "../tools/card-details.js";
+
+const JSON_MIME_TYPE = "application/json";
+
+function jsonContents(uri: URL, value: unknown) {
+    return {
+        contents: [{
+            uri: uri.href,
+            mimeType: JSON_MIME_TYPE,
+            text: JSON.stringify(value),
+        }],
+    };
+}
+
+// Template variables may be lists; Planka IDs never are
+function variable(value: string | string[]): string {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function byPosition(a: any, b: any) {
+    return a.position - b.position;
+}
+
+async function getAllBoards(): Promise<any[]> {
+    const snapshot = await getProjectsSnapshot();
+    return snapshot.included?.boards ?? [];
+}
+
+async function completeBoardId(value: string): Promise<string[]> {
+    const boards = await getAllBoards();
+    return boards.map((board) => board.id).filter((id: string) =>
+        id.startsWith(value)
+    );
+}
+
+/**
+ * Builds the board resource: the board with its lists (cards nested, in
+ * order) and labels
+ *
+ * @param {string} boardId - The ID of the board
+ * @returns {Promise<object>} The board resource content
+ * @throws {PlankaResourceNotFoundError} If the board does not exist
+ */
+export async function getBoardResource(boardId: string) {
+    const snapshot = await getBoardSnapshot(boardId);
+    if (!snapshot?.item) {
+        throw new PlankaResourceNotFoundError(`Board ${boardId}`);
+    }
+    const included = snapshot.included ?? {};
+    const cards = included.cards ?? [];
+
+    return {
+        board: snapshot.item,
+        lists: (included.lists ?? [])
+            .filter((list: any) => list.boardId === boardId)
+            .sort(byPosition)
+            .map((list: any) => ({
+                ...list,
+                cards: cards
+                    .filter((card: any) => card.listId === list.id)
+                    .sort(byPosition),
+            })),
+        labels: included.labels ?? [],
+    };
+}
+
+/**
+ * Registers the Planka resources and resource templates on a server
+ *
+ * @param {McpServer} server - The server to register the resources on
+ */
+export function registerPlankaResources(server: McpServer) {
+    server.resource(
+        "projects",
+        "planka://projects",
+        {
+            description: "All projects with their boards",
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri) => {
+            const snapshot = await getProjectsSnapshot();
+            return jsonContents(uri, {
+                projects: snapshot.items ?? [],
+                boards: snapshot.included?.boards ?? [],
+            });
+        },
+    );
+
+    server.resource(
+        "project",
+        new ResourceTemplate("planka://project/{projectId}", {
+            list: async () => {
+                const snapshot = await getProjectsSnapshot();
+                return {
+                    resources: (snapshot.items ?? []).map((project: any) => ({
+                        uri: `planka://project/${project.id}`,
+                        name: `Project: ${project.name}`,
+                    })),
+                };
+            },
+        }),
+        {
+            description: "A project with its boards",
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) => {
+            const projectId = variable(variables.projectId);
+            const snapshot = await getProjectsSnapshot();
+            const project = snapshot.items?.find((p: any) =>
+                p.id === projectId
+            );
+            if (!project) {
+                throw new PlankaResourceNotFoundError(`Project ${projectId}`);
+            }
+            return jsonContents(uri, {
+                project,
+                boards: (snapshot.included?.boards ?? []).filter((
+                    board: any,
+                ) => board.projectId === projectId),
+            });
+        },
+    );
+
+    server.resource(
+        "board",
+        new ResourceTemplate("planka://board/{boardId}", {
+            list: async () => ({
+                resources: (await getAllBoards()).map((board) => ({
+                    uri: `planka://board/${board.id}`,
+                    name: `Board: ${board.name}`,
+                })),
+            }),
+            complete: { boardId: completeBoardId },
+        }),
+        {
+            description: "A board with its lists, cards and labels",
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) =>
+            jsonContents(
+                uri,
+                await getBoardResource(variable(variables.boardId)),
+            ),
+    );
+
+    server.resource(
+        "board-summary",
+        new ResourceTemplate("planka://board/{boardId}/summary", {
+            list: async () => ({
+                resources: (await getAllBoards()).map((board) => ({
+                    uri: `planka://board/${board.id}/summary`,
+                    name: `Board summary: ${board.name}`,
+                })),
+            }),
+            complete: { boardId: completeBoardId },
+        }),
+        {
+            description:
+                "Board statistics, workflow state and the suggested next action",
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) =>
+            jsonContents(
+                uri,
+                await getBoardSummary({
+                    boardId: variable(variables.boardId),
+                    includeTaskDetails: false,
+                    includeComments: false,
+                }),
+            ),
+    );
+
+    server.resource(
+        "list",
+        new ResourceTemplate("planka://list/{listId}", { list: undefined }),
+        {
+            description: "A list with its cards",
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) => {
+            const listId = variable(variables.listId);
+            const snapshot = await getListBoardSnapshot(listId);
+            const list = snapshot.included?.lists?.find((l: any) =>
+                l.id === listId
+            );
+            return jsonContents(uri, {
+                list,
+                cards: (snapshot.included?.cards ?? [])
+                    .filter((card: any) => card.listId === listId)
+                    .sort(byPosition),
+            });
+        },
+    );
+
+    server.resource(
+        "card",
+        new ResourceTemplate("planka://card/{cardId}", { list: undefined }),
+        {
+            description:
+                "A card with its list, board, tasks, comments, labels and members",
+            mimeType: JSON_MIME_TYPE,
+        },
+        async (uri, variables) =>
+            jsonContents(
+                uri,
+                await getCardDetails({ cardId: variable(variables.cardId) }),
+            ),
+    );
+}
@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Resource subscriptions backed by a change-polling engine
+ *
+ * Planka has no webhooks the server could listen to, so subscribed resources
+ * are polled. Every PLANKA_POLL_INTERVAL_MS (default: 10000) the engine builds
+ * a fingerprint of each subscribed resource from the `updatedAt` of the
+ * records it shows (cards, lists, task lists, tasks and, for cards, comments)
+ * and notifies the subscribers of every resource whose fingerprint changed.
+ * An agent waiting on a review therefore learns about a reviewer's comment or
+ * a card moved back within one poll interval.
+ *
+ * Board and list resources only see the number of comments on each card, so
+ * they report new and deleted comments but not edited ones; subscribe to the
+ * card to be notified about comment edits too.
+ *
+ * The engine is shared by all sessions: a resource subscribed by several
+ * clients is polled once, and polling stops when nobody is subscribed.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+    ErrorCode,
+    McpError,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { plankaRequest } from "../common/utils.js";
+import {
+    getBoardSnapshot,
+    getProjectsSnapshot,
+    PlankaSnapshot,
+} from "../common/cache.js";
+import { resolveCardContext, resolveListBoardId } from "../common/resolver.js";
+
+type ResourceListener = (uri: string) => void;
+
+type Watch = {
+    listeners: Set<ResourceListener>;
+    // Unknown until the first successful poll
+    fingerprint?: string;
+};
+
+// planka://projects or planka://{type}/{id}[/...]
+const RESOURCE_URI_PATTERN =
+    /^planka:\/\/(?:projects$|(project|board|list|card)\/([^/]+))/;
+
+const watches = new Map<string, Watch>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+function getPollInterval(): number {
+    const interval = Number(process.env.PLANKA_POLL_INTERVAL_MS ?? 10000);
+    return Number.isFinite(interval) && interval > 0 ? interval : 10000;
+}
+
+function stamp(record: any): string {
+    return `${record.id}@${record.updatedAt ?? record.createdAt ?? ""}`;
+}
+
+function stamps(records: any[] | undefined): string[] {
+    return (records ?? []).map(stamp).sort();
+}
+
+function fingerprintBoard(snapshot: PlankaSnapshot, listId?: string): string {
+    const included = snapshot.included ?? {};
+    const lists = (included.lists ?? []).filter((list: any) =>
+        !listId || list.id === listId
+    );
+    const cards = (included.cards ?? []).filter((card: any) =>
+        !listId || card.listId === listId
+    );
+    return JSON.stringify([
+        snapshot.item ? stamp(snapshot.item) : null,
+        stamps(lists),
+        // Cards carry a comment counter, so new and deleted comments show up
+        // here too; edits only change the comments, which are not fetched
+        cards.map((card: any) =>
+            `${stamp(card)}:${card.listId}:${card.commentsTotal ?? ""}`
+        ).sort(),
+    ]);
+}
+
+/**
+ * Computes the fingerprint of a resource from the records it is built from
+ *
+ * @param {string} uri - The resource URI
+ * @returns {Promise<string | null>} The fingerprint, or null for URIs that cannot be watched
+ */
+async function fingerprintResource(uri: string): Promise<string | null> {
+    const match = uri.match(RESOURCE_URI_PATTERN);
+    if (!match) {
+        return null;
+    }
+    const [, type = "projects", id] = match;
+
+    switch (type) {
+        case "projects":
+        case "project": {
+            const snapshot = await getProjectsSnapshot();
+            return JSON.stringify([
+                stamps(snapshot.items),
+                stamps(snapshot.included?.boards),
+            ]);
+        }
+
+        case "board":
+            return fingerprintBoard(await getBoardSnapshot(id));
+
+        case "list": {
+            const snapshot = await getBoardSnapshot(
+                await resolveListBoardId(id),
+            );
+            return fingerprintBoard(snapshot, id);
+        }
+
+        case "card": {
+            const context = await resolveCardContext(id);
+            // Comments are read directly so a failed request is not
+            // mistaken for deleted comments
+            const comments: any = await plankaRequest(
+                `/api/cards/${id}/comments`,
+            );
+            return JSON.stringify([
+                `${stamp(context.card)}:${context.card.listId}`,
+                stamps(context.included.taskLists),
+                stamps(context.included.tasks),
+                stamps(context.included.cardLabels),
+                stamps(context.included.cardMemberships),
+                stamps(Array.isArray(comments) ? comments : comments?.items),
+            ]);
+        }
+
+        default:
+            return null;
+    }
+}
+
+async function pollWatches() {
+    if (polling) {
+        return;
+    }
+    polling = true;
+    try {
+        for (const [uri, watch] of watches) {
+            let fingerprint: string | null;
+            try {
+                fingerprint = await fingerprintResource(uri);
+            } catch (error) {
+                // Keep the previous fingerprint and try again next time
+                console.error(`Error polling resource ${uri}:`, error);
+                continue;
+            }
+            if (fingerprint === null) {
+                continue;
+            }
+
+            const changed = watch.fingerprint !== undefined &&
+                watch.fingerprint !== fingerprint;
+            watch.fingerprint = fingerprint;
+            if (changed) {
+                for (const listener of watch.listeners) {
+                    listener(uri);
+                }
+            }
+        }
+    } finally {
+        polling = false;
+    }
+}
+
+function updatePolling() {
+    if (watches.size > 0 && !pollTimer) {
+        pollTimer = setInterval(pollWatches, getPollInterval());
+        // Subscriptions alone must not keep the process alive
+        pollTimer.unref();
+    } else if (watches.size === 0 && pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+    }
+}
+
+/**
+ * Starts watching a resource for changes
+ *
+ * The current state is recorded right away, so changes made after the call
+ * are reported even if they happen before the first poll.
+ *
+ * @param {string} uri - The resource URI
+ * @param {ResourceListener} listener - Called with the URI whenever the resource changes
+ * @returns {() => void} Stops this listener from watching the resource
+ */
+export function watchResource(
+    uri: string,
+    listener: ResourceListener,
+): () => void {
+    let watch = watches.get(uri);
+    if (!watch) {
+        const newWatch: Watch = { listeners: new Set() };
+        watches.set(uri, newWatch);
+        watch = newWatch;
+        fingerprintResource(uri).then(
+            (fingerprint) => {
+                if (fingerprint !== null && newWatch.fingerprint === undefined) {
+                    newWatch.fingerprint = fingerprint;
+                }
+            },
+            () => {
+                // The next poll records the state instead
+            },
+        );
+    }
+    watch.listeners.add(listener);
+    updatePolling();
+
+    return () => {
+        watch.listeners.delete(listener);
+        if (watch.listeners.size === 0 && watches.get(uri) === watch) {
+            watches.delete(uri);
+            updatePolling();
+        }
+    };
+}
+
+/**
+ * Handles resources/subscribe and resources/unsubscribe on a server, sending
+ * notifications/resources/updated when a subscribed resource changes
+ *
+ * Subscriptions end when the server's connection closes.
+ *
+ * @param {McpServer} server - The server to handle subscriptions for
+ */
+export function registerResourceSubscriptions(server: McpServer) {
+    const subscriptions = new Map<string, () => void>();
+    const notify = (uri: string) => {
+        server.server.sendResourceUpdated({ uri }).catch((error) => {
+            console.error(`Error notifying about resource ${uri}:`, error);
+        });
+    };
+
+    server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+        const { uri } = request.params;
+        if (!RESOURCE_URI_PATTERN.test(uri)) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Cannot subscribe to ${uri}`,
+            );
+        }
+        if (!subscriptions.has(uri)) {
+            subscriptions.set(uri, watchResource(uri, notify));
+        }
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+        const { uri } = request.params;
+        subscriptions.get(uri)?.();
+        subscriptions.delete(uri);
+        return {};
+    });
+
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+        for (const unsubscribe of subscriptions.values()) {
+            unsubscribe();
+        }
+        subscriptions.clear();
+        previousOnClose?.();
+    };
+}
@@ -0,0 +1,1167 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { z } from "zod";
+
+// Import Planka operations
+import * as attachments from "./operations/attachments.js";
+import * as boardMemberships from "./operations/boardMemberships.js";
+import * as boards from "./operations/boards.js";
+import * as cardMemberships from "./operations/cardMemberships.js";
+import * as cards from "./operations/cards.js";
+import * as comments from "./operations/comments.js";
+import * as labels from "./operations/labels.js";
+import * as lists from "./operations/lists.js";
+import * as projects from "./operations/projects.js";
+import * as tasks from "./operations/tasks.js";
+
+// Import custom tools
+import {
+  createCardWithTasks,
+  getAuditLog,
+  getAuditLogSchema,
+  getBoardSummary,
+  getCardDetails,
+  performWorkflowAction,
+  searchCards,
+  searchCardsSchema,
+  workflowActionSchema,
+} from "./tools/index.js";
+
+// Import resources
+import {
+  registerPlankaResources,
+  registerResourceSubscriptions,
+} from "./resources/index.js";
+
+// Import prompts
+import { registerKanbanPrompts } from "./prompts/index.js";
+
+import { VERSION } from "./common/version.js";
+import { getAgentUserId } from "./common/setup.js";
+import { allowedActions } from "./common/access.js";
+import { withAuditContext } from "./common/audit.js";
+import { dryRunParameter, withDryRun } from "./common/dry-run.js";
+import { getUndoHistory, undoRecent } from "./common/undo.js";
+
+/**
+ * Builds an MCP server instance with all Kanban tools, resources and prompts
+ * registered.
+ *
+ * The stdio transport uses a single instance, while the HTTP transports
+ * create one instance per client session.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer(
+    {
+      name: "planka-mcp-server",
+      version: VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+      },
+    }
+  );
+
+  // ----- CONSOLIDATED KANBAN TOOLS -----
+  registerProjectBoardManager(server);
+  registerListManager(server);
+  registerCardManager(server);
+  registerStopwatch(server);
+  registerLabelManager(server);
+  registerTaskManager(server);
+  registerCommentManager(server);
+  registerMembershipManager(server);
+  registerWorkflow(server);
+  registerAuditLog(server);
+  registerUndo(server);
+  registerSearchCards(server);
+  registerAttachmentManager(server);
+
+  // ----- READ-ONLY RESOURCES -----
+  registerPlankaResources(server);
+  registerResourceSubscriptions(server);
+
+  // ----- WORKFLOW PROMPTS -----
+  // The prompts only mention the tool actions registered above
+  registerKanbanPrompts(server);
+
+  return server;
+}
+
+// 1. Project and Board Manager
+function registerProjectBoardManager(server: McpServer) {
+  const projectBoardActions = allowedActions("mcp_kanban_project_board_manager");
+  if (!projectBoardActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_project_board_manager",
+    "Manage projects and boards with various operations",
+    {
+      action: z
+        .enum(projectBoardActions)
+        .describe("The action to perform"),
+      id: z.string().optional().describe("The ID of the project or board"),
+      projectId: z.string().optional().describe("The ID of the project"),
+      name: z.string().optional().describe("The name of the board"),
+      position: z.number().optional().describe("The position of the board"),
+      type: z.string().optional().describe("The type of the board"),
+      page: z
+        .number()
+        .optional()
+        .describe("The page number for pagination (1-indexed)"),
+      perPage: z.number().optional().describe("The number of items per page"),
+      boardId: z
+        .string()
+        .optional()
+        .describe("The ID of the board to get a summary for"),
+      includeTaskDetails: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Whether to include detailed task information for each card"),
+      includeComments: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Whether to include comments for each card"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_project_board_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_projects":
+          if (!args.page || !args.perPage)
+            throw new Error(
+              "page and perPage are required for get_projects action"
+            );
+          result = await projects.getProjects(args.page, args.perPage);
+          break;
+
+        case "get_project":
+          if (!args.id) throw new Error("id is required for get_project action");
+          result = await projects.getProject(args.id);
+          break;
+
+        case "get_boards":
+          if (!args.projectId)
+            throw new Error("projectId is required for get_boards action");
+          result = await boards.getBoards(args.projectId);
+          break;
+
+        case "create_board":
+          if (!args.projectId || !args.name || args.position === undefined)
+            throw new Error(
+              "projectId, name, and position are required for create_board action"
+            );
+          result = await boards.createBoard({
+            projectId: args.projectId,
+            name: args.name,
+            position: args.position,
+          });
+          break;
+
+        case "get_board":
+          if (!args.id) throw new Error("id is required for get_board action");
+          result = await boards.getBoard(args.id);
+          break;
+
+        case "update_board":
+          if (!args.id || !args.name || args.position === undefined)
+            throw new Error(
+              "id, name, and position are required for update_board action"
+            );
+          const boardUpdateOptions = {
+            name: args.name,
+            position: args.position,
+          } as any; // Use type assertion to avoid TypeScript errors
+
+          if (args.type) {
+            boardUpdateOptions.type = args.type;
+          }
+
+          result = await boards.updateBoard(args.id, boardUpdateOptions);
+          break;
+
+        case "delete_board":
+          if (!args.id) throw new Error("id is required for delete_board action");
+          result = await boards.deleteBoard(args.id);
+          break;
+
+        case "get_board_summary":
+          if (!args.boardId)
+            throw new Error("boardId is required for get_board_summary action");
+          result = await getBoardSummary({
+            boardId: args.boardId,
+            includeTaskDetails: args.includeTaskDetails,
+            includeComments: args.includeComments,
+          });
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 2. List Manager
+function registerListManager(server: McpServer) {
+  const listActions = allowedActions("mcp_kanban_list_manager");
+  if (!listActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_list_manager",
+    "Manage kanban lists with various operations",
+    {
+      action: z
+        .enum(listActions)
+        .describe("The action to perform"),
+      id: z.string().optional().describe("The ID of the list"),
+      boardId: z.string().optional().describe("The ID of the board"),
+      name: z.string().optional().describe("The name of the list"),
+      position: z.number().optional().describe("The position of the list"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_list_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_all":
+          if (!args.boardId)
+            throw new Error("boardId is required for get_all action");
+          result = await lists.getLists(args.boardId);
+          break;
+
+        case "create":
+          if (!args.boardId || !args.name || args.position === undefined)
+            throw new Error(
+              "boardId, name, and position are required for create action"
+            );
+          result = await lists.createList({
+            boardId: args.boardId,
+            name: args.name,
+            position: args.position,
+          });
+          break;
+
+        case "get_one":
+          if (!args.id) throw new Error("id is required for get_one action");
+          result = await lists.getList(args.id);
+          break;
+
+        case "update":
+          if (!args.id || !args.name || args.position === undefined)
+            throw new Error(
+              "id, name, and position are required for update action"
+            );
+          const { id, ...updateOptions } = args;
+          result = await lists.updateList(id, {
+            name: args.name,
+            position: args.position,
+          });
+          break;
+
+        case "delete":
+          if (!args.id) throw new Error("id is required for delete action");
+          result = await lists.deleteList(args.id);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 3. Card Manager
+function registerCardManager(server: McpServer) {
+  const cardActions = allowedActions("mcp_kanban_card_manager");
+  if (!cardActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_card_manager",
+    "Manage kanban cards with various operations",
+    {
+      action: z
+        .enum(cardActions)
+        .describe("The action to perform"),
+      id: z.string().optional().describe("The ID of the card"),
+      listId: z.string().optional().describe("The ID of the list"),
+      boardId: z
+        .string()
+        .optional()
+        .describe("The ID of the board (if moving between boards)"),
+      projectId: z
+        .string()
+        .optional()
+        .describe("The ID of the project (if moving between projects)"),
+      name: z.string().optional().describe("The name of the card"),
+      type: z.enum(["project", "task"]).optional().describe("The type of the card (project or task, defaults to project)"),
+      description: z.string().optional().describe("The description of the card"),
+      position: z.number().optional().describe("The position of the card"),
+      dueDate: z
+        .string()
+        .optional()
+        .describe("The due date for the card (ISO format)"),
+      isCompleted: z
+        .boolean()
+        .optional()
+        .describe("Whether the card is completed"),
+      tasks: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Array of task descriptions to create for create_with_tasks action"
+        ),
+      comment: z
+        .string()
+        .optional()
+        .describe("Optional comment to add to the card"),
+      cardId: z
+        .string()
+        .optional()
+        .describe("The ID of the card to get details for"),
+      userId: z
+        .string()
+        .optional()
+        .describe("The ID of the user (for add_member and remove_member)"),
+      assignee: z
+        .string()
+        .optional()
+        .describe(
+          "Only return cards assigned to this user, by ID, username, email or \"me\" (for get_all)"
+        ),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_card_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_all":
+          if (!args.listId)
+            throw new Error("listId is required for get_all action");
+          result = await cards.getCards(args.listId, args.assignee);
+          break;
+
+        case "create":
+          if (!args.listId || !args.name)
+            throw new Error("listId and name are required for create action");
+          result = await cards.createCard({
+            listId: args.listId,
+            name: args.name,
+            type: args.type || "project",
+            description: args.description || "",
+            position: args.position || 0,
+          });
+          break;
+
+        case "get_one":
+          if (!args.id) throw new Error("id is required for get_one action");
+          result = await cards.getCard(args.id);
+          break;
+
+        case "update":
+          if (!args.id) throw new Error("id is required for update action");
+          const cardUpdateOptions = {} as any; // Use type assertion to avoid TypeScript errors
+
+          if (args.name !== undefined) cardUpdateOptions.name = args.name;
+          if (args.description !== undefined)
+            cardUpdateOptions.description = args.description;
+          if (args.position !== undefined)
+            cardUpdateOptions.position = args.position;
+          if (args.dueDate !== undefined)
+            cardUpdateOptions.dueDate = args.dueDate;
+          if (args.isCompleted !== undefined)
+            cardUpdateOptions.isCompleted = args.isCompleted;
+
+          result = await cards.updateCard(args.id, cardUpdateOptions);
+          break;
+
+        case "move":
+          if (!args.id || !args.listId || args.position === undefined)
+            throw new Error(
+              "id, listId, and position are required for move action"
+            );
+          result = await cards.moveCard(
+            args.id,
+            args.listId,
+            args.position,
+            args.boardId,
+            args.projectId
+          );
+          break;
+
+        case "duplicate":
+          if (!args.id || args.position === undefined)
+            throw new Error("id and position are required for duplicate action");
+          result = await cards.duplicateCard(args.id, args.position);
+          break;
+
+        case "delete":
+          if (!args.id) throw new Error("id is required for delete action");
+          result = await cards.deleteCard(args.id);
+          break;
+
+        case "create_with_tasks":
+          if (!args.listId || !args.name)
+            throw new Error(
+              "listId and name are required for create_with_tasks action"
+            );
+          result = await createCardWithTasks({
+            listId: args.listId,
+            name: args.name,
+            type: args.type || "project",
+            description: args.description,
+            tasks: args.tasks,
+            comment: args.comment,
+            position: args.position,
+          });
+          break;
+
+        case "get_details":
+          if (!args.cardId)
+            throw new Error("cardId is required for get_details action");
+          result = await getCardDetails({
+            cardId: args.cardId,
+          });
+          break;
+
+        case "get_members":
+          if (!args.id) throw new Error("id is required for get_members action");
+          result = await cardMemberships.getCardMembers(args.id);
+          break;
+
+        case "add_member":
+          if (!args.id || !args.userId)
+            throw new Error("id and userId are required for add_member action");
+          result = await cardMemberships.addCardMember(args.id, args.userId);
+          break;
+
+        case "remove_member":
+          if (!args.id || !args.userId)
+            throw new Error("id and userId are required for remove_member action");
+          result = await cardMemberships.removeCardMember(args.id, args.userId);
+          break;
+
+        case "assign_to_me":
+          if (!args.id) throw new Error("id is required for assign_to_me action");
+          result = await cardMemberships.addCardMember(
+            args.id,
+            await getAgentUserId()
+          );
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 4. Stopwatch Manager
+function registerStopwatch(server: McpServer) {
+  const stopwatchActions = allowedActions("mcp_kanban_stopwatch");
+  if (!stopwatchActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_stopwatch",
+    "Manage card stopwatches for time tracking",
+    {
+      action: z
+        .enum(stopwatchActions)
+        .describe("The action to perform"),
+      id: z.string().describe("The ID of the card"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_stopwatch", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "start":
+          result = await cards.startCardStopwatch(args.id);
+          break;
+
+        case "stop":
+          result = await cards.stopCardStopwatch(args.id);
+          break;
+
+        case "get":
+          result = await cards.getCardStopwatch(args.id);
+          break;
+
+        case "reset":
+          result = await cards.resetCardStopwatch(args.id);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 5. Label Manager
+function registerLabelManager(server: McpServer) {
+  const labelActions = allowedActions("mcp_kanban_label_manager");
+  if (!labelActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_label_manager",
+    "Manage kanban labels with various operations",
+    {
+      action: z
+        .enum(labelActions)
+        .describe("The action to perform"),
+      id: z.string().optional().describe("The ID of the label"),
+      boardId: z.string().optional().describe("The ID of the board"),
+      cardId: z.string().optional().describe("The ID of the card"),
+      labelId: z
+        .string()
+        .optional()
+        .describe("The ID of the label (for card operations)"),
+      name: z.string().optional().describe("The name of the label"),
+      color: z
+        .enum([
+          "berry-red",
+          "pumpkin-orange",
+          "lagoon-blue",
+          "pink-tulip",
+          "light-mud",
+          "orange-peel",
+          "bright-moss",
+          "antique-blue",
+          "dark-granite",
+          "lagune-blue",
+          "sunny-grass",
+          "morning-sky",
+          "light-orange",
+          "midnight-blue",
+          "tank-green",
+          "gun-metal",
+          "wet-moss",
+          "red-burgundy",
+          "light-concrete",
+          "apricot-red",
+          "desert-sand",
+          "navy-blue",
+          "egg-yellow",
+          "coral-green",
+          "light-cocoa",
+        ])
+        .optional()
+        .describe("The color of the label"),
+      position: z.number().optional().describe("The position of the label"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_label_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_all":
+          if (!args.boardId)
+            throw new Error("boardId is required for get_all action");
+          result = await labels.getLabels(args.boardId);
+          break;
+
+        case "create":
+          if (
+            !args.boardId ||
+            !args.name ||
+            !args.color ||
+            args.position === undefined
+          )
+            throw new Error(
+              "boardId, name, color, and position are required for create action"
+            );
+          result = await labels.createLabel({
+            boardId: args.boardId,
+            name: args.name,
+            color: args.color,
+            position: args.position,
+          });
+          break;
+
+        case "update":
+          if (
+            !args.id ||
+            !args.name ||
+            !args.color ||
+            args.position === undefined
+          )
+            throw new Error(
+              "id, name, color, and position are required for update action"
+            );
+          result = await labels.updateLabel(args.id, {
+            name: args.name,
+            color: args.color,
+            position: args.position,
+          });
+          break;
+
+        case "delete":
+          if (!args.id) throw new Error("id is required for delete action");
+          result = await labels.deleteLabel(args.id);
+          break;
+
+        case "add_to_card":
+          if (!args.cardId || !args.labelId)
+            throw new Error(
+              "cardId and labelId are required for add_to_card action"
+            );
+          result = await labels.addLabelToCard(args.cardId, args.labelId);
+          break;
+
+        case "remove_from_card":
+          if (!args.cardId || !args.labelId)
+            throw new Error(
+              "cardId and labelId are required for remove_from_card action"
+            );
+          result = await labels.removeLabelFromCard(args.cardId, args.labelId);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 6. Task Manager
+function registerTaskManager(server: McpServer) {
+  const taskActions = allowedActions("mcp_kanban_task_manager");
+  if (!taskActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_task_manager",
+    "Manage task lists (checklists on a card) and the individual tasks within them. get_all, create, batch_create, get_one, update and delete operate on task lists; create_task, get_task, update_task, complete_task and delete_task operate on tasks",
+    {
+      action: z
+        .enum(taskActions)
+        .describe("The action to perform"),
+      id: z
+        .string()
+        .optional()
+        .describe("The ID of the task list (task list actions) or task (task actions)"),
+      cardId: z.string().optional().describe("The ID of the card"),
+      taskListId: z
+        .string()
+        .optional()
+        .describe("The ID of the task list (for create_task)"),
+      name: z.string().optional().describe("The name of the task or task list"),
+      isCompleted: z
+        .boolean()
+        .optional()
+        .describe("Whether the task is completed (for create_task and update_task)"),
+      position: z.number().optional().describe("The position of the task or task list"),
+      tasks: z
+        .array(
+          z.object({
+            cardId: z.string().optional().describe("The ID of the card (for batch_create)"),
+            name: z.string().describe("The name of this task or task list"),
+            position: z.number().optional().describe("The position of this task or task list"),
+            isCompleted: z.boolean().optional().describe("Whether the task is completed"),
+          })
+        )
+        .optional()
+        .describe("Task lists to create (batch_create) or tasks to create in the new task list (create_tasklist_with_tasks)"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_task_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_all":
+          if (!args.cardId)
+            throw new Error("cardId is required for get_all action");
+          result = await tasks.getTaskLists(args.cardId);
+          break;
+
+        case "create":
+          if (!args.cardId || !args.name)
+            throw new Error("cardId and name are required for create action");
+          result = await tasks.createTaskList({
+            cardId: args.cardId,
+            name: args.name,
+            position: args.position,
+          });
+          break;
+
+        case "batch_create":
+          if (!args.tasks || args.tasks.length === 0)
+            throw new Error("tasks array is required for batch_create action");
+          result = await tasks.batchCreateTaskLists({ tasks: args.tasks as any });
+          break;
+
+        case "create_tasklist_with_tasks":
+          if (!args.cardId || !args.name || !args.tasks)
+            throw new Error("cardId, name, and tasks are required for create_tasklist_with_tasks action");
+          result = await tasks.createTaskListWithTasks({
+            cardId: args.cardId,
+            name: args.name,
+            tasks: args.tasks,
+          });
+          break;
+
+        case "get_one":
+          if (!args.id) throw new Error("id is required for get_one action");
+          result = await tasks.getTaskList(args.id, args.cardId);
+          break;
+
+        case "update":
+          if (!args.id) throw new Error("id is required for update action");
+          const taskListUpdateOptions = {} as any;
+
+          if (args.name !== undefined) taskListUpdateOptions.name = args.name;
+          if (args.position !== undefined)
+            taskListUpdateOptions.position = args.position;
+
+          result = await tasks.updateTaskList(args.id, taskListUpdateOptions);
+          break;
+
+        case "delete":
+          if (!args.id) throw new Error("id is required for delete action");
+          result = await tasks.deleteTaskList(args.id);
+          break;
+
+        case "create_task":
+          if (!args.taskListId || !args.name)
+            throw new Error("taskListId and name are required for create_task action");
+          result = await tasks.createTaskInTaskList({
+            taskListId: args.taskListId,
+            name: args.name,
+            position: args.position,
+            isCompleted: args.isCompleted,
+          });
+          break;
+
+        case "get_task":
+          if (!args.id) throw new Error("id is required for get_task action");
+          result = await tasks.getTaskInTaskList(args.id);
+          break;
+
+        case "update_task":
+          if (!args.id) throw new Error("id is required for update_task action");
+          const taskUpdateOptions = {} as any;
+
+          if (args.name !== undefined) taskUpdateOptions.name = args.name;
+          if (args.position !== undefined)
+            taskUpdateOptions.position = args.position;
+          if (args.isCompleted !== undefined)
+            taskUpdateOptions.isCompleted = args.isCompleted;
+
+          result = await tasks.updateTaskInTaskList(args.id, taskUpdateOptions);
+          break;
+
+        case "complete_task":
+          if (!args.id)
+            throw new Error("id is required for complete_task action");
+          result = await tasks.updateTaskInTaskList(args.id, { isCompleted: true });
+          break;
+
+        case "delete_task":
+          if (!args.id) throw new Error("id is required for delete_task action");
+          result = await tasks.deleteTaskInTaskList(args.id);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 7. Comment Manager
+function registerCommentManager(server: McpServer) {
+  const commentActions = allowedActions("mcp_kanban_comment_manager");
+  if (!commentActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_comment_manager",
+    "Manage card comments with various operations",
+    {
+      action: z
+        .enum(commentActions)
+        .describe("The action to perform"),
+      id: z.string().optional().describe("The ID of the comment"),
+      cardId: z
+        .string()
+        .optional()
+        .describe(
+          "The ID of the card (also pass it with update so the edit can be undone)"
+        ),
+      text: z.string().optional().describe("The text content of the comment"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_comment_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_all":
+          if (!args.cardId)
+            throw new Error("cardId is required for get_all action");
+          result = await comments.getComments(args.cardId);
+          break;
+
+        case "create":
+          if (!args.cardId || !args.text)
+            throw new Error("cardId and text are required for create action");
+          result = await comments.createComment({
+            cardId: args.cardId,
+            text: args.text,
+          });
+          break;
+
+        case "get_one":
+          if (!args.id || !args.cardId) 
+            throw new Error("id and cardId are required for get_one action");
+          result = await comments.getComment(args.id, args.cardId);
+          break;
+
+        case "update":
+          if (!args.id || !args.text)
+            throw new Error("id and text are required for update action");
+          result = await comments.updateComment(
+            args.id,
+            { text: args.text },
+            args.cardId
+          );
+          break;
+
+        case "delete":
+          if (!args.id) throw new Error("id is required for delete action");
+          result = await comments.deleteComment(args.id);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 8. Membership Manager
+function registerMembershipManager(server: McpServer) {
+  const membershipActions = allowedActions("mcp_kanban_membership_manager");
+  if (!membershipActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_membership_manager",
+    "Manage board memberships with various operations",
+    {
+      action: z
+        .enum(membershipActions)
+        .describe("The action to perform"),
+      id: z.string().optional().describe("The ID of the membership"),
+      boardId: z.string().optional().describe("The ID of the board"),
+      userId: z.string().optional().describe("The ID of the user"),
+      role: z
+        .enum(["editor", "viewer"])
+        .optional()
+        .describe("The role of the user in the board"),
+      canComment: z
+        .boolean()
+        .optional()
+        .describe("Whether the user can comment on the board"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_membership_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_all":
+          if (!args.boardId)
+            throw new Error("boardId is required for get_all action");
+          result = await boardMemberships.getBoardMemberships(args.boardId);
+          break;
+
+        case "create":
+          if (!args.boardId || !args.userId || !args.role)
+            throw new Error(
+              "boardId, userId, and role are required for create action"
+            );
+          result = await boardMemberships.createBoardMembership({
+            boardId: args.boardId,
+            userId: args.userId,
+            role: args.role,
+          });
+          break;
+
+        case "get_one":
+          if (!args.id) throw new Error("id is required for get_one action");
+          result = await boardMemberships.getBoardMembership(args.id);
+          break;
+
+        case "update":
+          if (!args.id) throw new Error("id is required for update action");
+          const membershipUpdateOptions = {} as any;
+
+          if (args.role !== undefined) membershipUpdateOptions.role = args.role;
+          if (args.canComment !== undefined)
+            membershipUpdateOptions.canComment = args.canComment;
+
+          result = await boardMemberships.updateBoardMembership(
+            args.id,
+            membershipUpdateOptions
+          );
+          break;
+
+        case "delete":
+          if (!args.id) throw new Error("id is required for delete action");
+          result = await boardMemberships.deleteBoardMembership(args.id);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 9. Workflow Actions
+function registerWorkflow(server: McpServer) {
+  const workflowActions = allowedActions("mcp_kanban_workflow");
+  if (!workflowActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_workflow",
+    "Move a card through the board workflow (start working, mark tasks completed, move to testing, move to done) and document it with a comment",
+    {
+      ...workflowActionSchema.shape,
+      action: z.enum(workflowActions).describe("The workflow action to perform"),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_workflow", withDryRun(async (args) => {
+      const result = await performWorkflowAction(args);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 10. Audit Log
+function registerAuditLog(server: McpServer) {
+  const auditLogActions = allowedActions("mcp_kanban_audit_log");
+  if (!auditLogActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_audit_log",
+    "Review the changes made through this server, newest first, optionally for one card or board",
+    {
+      ...getAuditLogSchema.shape,
+      action: z.enum(auditLogActions).describe("The action to perform"),
+    },
+    async (args) => {
+      const result = await getAuditLog(args);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }
+  );
+}
+
+// 11. Undo
+function registerUndo(server: McpServer) {
+  const undoActions = allowedActions("mcp_kanban_undo");
+  if (!undoActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_undo",
+    "Undo the most recent changes (card updates and moves, list updates, deleted task lists and tasks, label changes, card assignments, comment edits), newest first, or list the changes that can be undone",
+    {
+      action: z.enum(undoActions).describe("The action to perform"),
+      count: z
+        .number()
+        .optional()
+        .describe(
+          "The number of changes to undo (default: 1) or to list (default: 20)"
+        ),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_undo", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_history":
+          result = getUndoHistory(args.count);
+          break;
+
+        case "undo":
+          result = await undoRecent(args.count);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
+
+// 12. Card Search
+function registerSearchCards(server: McpServer) {
+  const searchActions = allowedActions("mcp_kanban_search_cards");
+  if (!searchActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_search_cards",
+    "Find cards by text in their names, descriptions and optionally comments across a board, a project or every board, filtered by labels, assigned users, completion, due date and list; results are ranked and include their list, board and project",
+    {
+      ...searchCardsSchema.shape,
+      action: z.enum(searchActions).describe("The action to perform"),
+    },
+    async (args) => {
+      const result = await searchCards(args);
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }
+  );
+}
+
+// 13. Attachment Manager
+function registerAttachmentManager(server: McpServer) {
+  const attachmentActions = allowedActions("mcp_kanban_attachment_manager");
+  if (!attachmentActions) {
+    return;
+  }
+
+  server.tool(
+    "mcp_kanban_attachment_manager",
+    "Manage card attachments: upload a local file or inline content, list a card's attachments, download one to the attachments directory or delete one",
+    {
+      action: z
+        .enum(attachmentActions)
+        .describe("The action to perform"),
+      id: z.string().optional().describe("The ID of the attachment"),
+      cardId: z.string().optional().describe("The ID of the card"),
+      filePath: z
+        .string()
+        .optional()
+        .describe(
+          "Path of a local file to upload, within PLANKA_ATTACHMENTS_DIR (for upload)"
+        ),
+      content: z
+        .string()
+        .optional()
+        .describe("Inline content to upload instead of a file (for upload)"),
+      encoding: z
+        .enum(["utf8", "base64"])
+        .optional()
+        .describe("Encoding of the inline content (default: utf8)"),
+      name: z
+        .string()
+        .optional()
+        .describe(
+          "The attachment name (default: the file name; required for inline content)"
+        ),
+      ...dryRunParameter,
+    },
+    withAuditContext("mcp_kanban_attachment_manager", withDryRun(async (args) => {
+      let result;
+
+      switch (args.action) {
+        case "get_all":
+          if (!args.cardId)
+            throw new Error("cardId is required for get_all action");
+          result = await attachments.getAttachments(args.cardId);
+          break;
+
+        case "upload":
+          if (!args.cardId)
+            throw new Error("cardId is required for upload action");
+          result = await attachments.uploadAttachment({
+            cardId: args.cardId,
+            filePath: args.filePath,
+            content: args.content,
+            encoding: args.encoding,
+            name: args.name,
+          });
+          break;
+
+        case "download":
+          if (!args.id || !args.cardId)
+            throw new Error("id and cardId are required for download action");
+          result = await attachments.downloadAttachment(args.cardId, args.id);
+          break;
+
+        case "delete":
+          if (!args.id) throw new Error("id is required for delete action");
+          result = await attachments.deleteAttachment(args.id);
+          break;
+
+        default:
+          throw new Error(`Unknown action: ${args.action}`);
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
+    }))
+  );
+}
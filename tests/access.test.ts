@@ -0,0 +1,134 @@
+/**
+ * Tests of read-only mode (PLANKA_READ_ONLY) and the tool allowlist
+ * (PLANKA_TOOLS_CONFIG)
+ *
+ * The tools config is loaded once per module, so every test here shares the
+ * allowlist set in beforeAll after the invalid-config test.
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { allowedActions } from "../common/access.js";
+import { PlankaPermissionError } from "../common/errors.js";
+import { plankaRequest } from "../common/utils.js";
+import { createServer } from "../server.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let fakePlanka: FakePlanka;
+
+// Connects a client to a fresh server, so the schemas reflect the current env
+async function connectClient() {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "access-test", version: "1.0.0" });
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function actionEnum(client: Client, toolName: string) {
+  const { tools } = await client.listTools();
+  const tool: any = tools.find((t) => t.name === toolName);
+  return tool?.inputSchema.properties.action.enum;
+}
+
+describe("access control", () => {
+  beforeAll(async () => {
+    fakePlanka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = fakePlanka.url;
+  });
+
+  afterAll(async () => {
+    delete process.env.PLANKA_TOOLS_CONFIG;
+    delete process.env.PLANKA_READ_ONLY;
+    await fakePlanka.close();
+  });
+
+  test("rejects a tools config naming an unknown tool or action", () => {
+    process.env.PLANKA_TOOLS_CONFIG = JSON.stringify({
+      tools: { mcp_kanban_list_mangaer: false },
+    });
+    expect(() => allowedActions("mcp_kanban_list_manager")).toThrow(
+      'Unknown tool "mcp_kanban_list_mangaer"',
+    );
+
+    process.env.PLANKA_TOOLS_CONFIG = JSON.stringify({
+      tools: { mcp_kanban_list_manager: { exclude: ["remove"] } },
+    });
+    expect(() => allowedActions("mcp_kanban_list_manager")).toThrow(
+      'Unknown action "remove" for mcp_kanban_list_manager',
+    );
+  });
+
+  describe("with an allowlist", () => {
+    beforeAll(() => {
+      process.env.PLANKA_TOOLS_CONFIG = JSON.stringify({
+        tools: {
+          mcp_kanban_project_board_manager: false,
+          mcp_kanban_list_manager: { actions: ["get_all", "create"] },
+          mcp_kanban_card_manager: { exclude: ["delete", "duplicate"] },
+        },
+      });
+    });
+
+    test("drops disabled tools and actions from the tool schemas", async () => {
+      const client = await connectClient();
+      try {
+        const { tools } = await client.listTools();
+        const names = tools.map((tool) => tool.name);
+        expect(names).not.toContain("mcp_kanban_project_board_manager");
+        expect(names).toContain("mcp_kanban_comment_manager");
+
+        expect(await actionEnum(client, "mcp_kanban_list_manager")).toEqual([
+          "get_all",
+          "create",
+        ]);
+        const cardActions = await actionEnum(client, "mcp_kanban_card_manager");
+        expect(cardActions).toContain("move");
+        expect(cardActions).not.toContain("delete");
+        expect(cardActions).not.toContain("duplicate");
+
+        await expect(
+          client.callTool({
+            name: "mcp_kanban_list_manager",
+            arguments: { action: "delete", id: "1" },
+          }),
+        ).rejects.toThrow("Invalid enum value");
+      } finally {
+        await client.close();
+      }
+    });
+
+    test("read-only mode rejects mutations", async () => {
+      process.env.PLANKA_READ_ONLY = "true";
+      const client = await connectClient();
+      try {
+        expect(await actionEnum(client, "mcp_kanban_list_manager")).toEqual([
+          "get_all",
+        ]);
+        const { tools } = await client.listTools();
+        expect(tools.map((tool) => tool.name)).not.toContain(
+          "mcp_kanban_workflow",
+        );
+
+        await expect(
+          client.callTool({
+            name: "mcp_kanban_list_manager",
+            arguments: { action: "create", boardId: "1", name: "New" },
+          }),
+        ).rejects.toThrow("Invalid enum value");
+
+        await expect(
+          plankaRequest("/api/projects", {
+            method: "POST",
+            body: { name: "read-only" },
+          }),
+        ).rejects.toThrow(PlankaPermissionError);
+        expect(fakePlanka.requests).not.toContain("POST /api/projects");
+      } finally {
+        delete process.env.PLANKA_READ_ONLY;
+        await client.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests of attachment uploads from local files: only files within
+ * PLANKA_ATTACHMENTS_DIR can be read
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { plankaRequest } from "../common/utils.js";
+import { uploadAttachment } from "../operations/attachments.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let cardId: string;
+let rootDir: string;
+let uploadDir: string;
+let secretPath: string;
+
+describe("uploadAttachment", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Attachments project" },
+    });
+    const board: any = await plankaRequest(
+      `/api/projects/${project.item.id}/boards`,
+      { method: "POST", body: { name: "Attachments board", position: 1 } },
+    );
+    const list: any = await plankaRequest(
+      `/api/boards/${board.item.id}/lists`,
+      { method: "POST", body: { name: "To Do", position: 1 } },
+    );
+    const card: any = await plankaRequest(
+      `/api/lists/${list.item.id}/cards`,
+      { method: "POST", body: { name: "Attachments card" } },
+    );
+    cardId = card.item.id;
+
+    // <root>/uploads holds the uploadable files, <root>/secret.txt is outside
+    rootDir = await mkdtemp(join(tmpdir(), "planka-uploads-"));
+    uploadDir = join(rootDir, "uploads");
+    await mkdir(uploadDir);
+    await writeFile(join(uploadDir, "report.txt"), "report");
+    secretPath = join(rootDir, "secret.txt");
+    await writeFile(secretPath, "secret");
+    await symlink(secretPath, join(uploadDir, "link.txt"));
+  });
+
+  afterAll(async () => {
+    delete process.env.PLANKA_ATTACHMENTS_DIR;
+    await rm(rootDir, { recursive: true, force: true });
+    await planka.close();
+  });
+
+  test("only takes inline content without PLANKA_ATTACHMENTS_DIR", async () => {
+    delete process.env.PLANKA_ATTACHMENTS_DIR;
+    await expect(
+      uploadAttachment({ cardId, filePath: join(uploadDir, "report.txt") }),
+    ).rejects.toThrow("Uploading local files is disabled");
+
+    const note = await uploadAttachment({
+      cardId,
+      content: "Release notes",
+      name: "notes.txt",
+    });
+    expect(note.name).toBe("notes.txt");
+  });
+
+  test("uploads files within PLANKA_ATTACHMENTS_DIR", async () => {
+    process.env.PLANKA_ATTACHMENTS_DIR = uploadDir;
+    const absolute = await uploadAttachment({
+      cardId,
+      filePath: join(uploadDir, "report.txt"),
+    });
+    expect(absolute.name).toBe("report.txt");
+    const relative = await uploadAttachment({ cardId, filePath: "report.txt" });
+    expect(relative.name).toBe("report.txt");
+  });
+
+  test("rejects files outside of PLANKA_ATTACHMENTS_DIR", async () => {
+    process.env.PLANKA_ATTACHMENTS_DIR = uploadDir;
+    const attachmentCount = planka.store.attachments.length;
+
+    for (
+      const filePath of [secretPath, "../secret.txt", "link.txt", "/etc/passwd"]
+    ) {
+      await expect(uploadAttachment({ cardId, filePath })).rejects.toThrow(
+        "is outside of",
+      );
+    }
+    expect(planka.store.attachments).toHaveLength(attachmentCount);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests of logging the agent in again when Planka rejects its token
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { plankaRequest } from "../common/utils.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+
+function logins() {
+  return planka.requests.filter((request) =>
+    request === "POST /api/access-tokens"
+  ).length;
+}
+
+describe("Agent authentication", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+  });
+
+  afterAll(async () => {
+    await planka.close();
+  });
+
+  test("reuses the token across requests", async () => {
+    await plankaRequest("/api/users");
+    await plankaRequest("/api/users/me");
+    expect(logins()).toBe(1);
+  });
+
+  test("logs in again and replays the request after a 401", async () => {
+    planka.revokeTokens();
+    const response: any = await plankaRequest("/api/users/me");
+
+    expect(response.item.username).toBe("demo");
+    expect(logins()).toBe(2);
+    expect(planka.requests.slice(-3)).toEqual([
+      "GET /api/users/me",
+      "POST /api/access-tokens",
+      "GET /api/users/me",
+    ]);
+  });
+
+  test("shares one login between concurrent rejected requests", async () => {
+    planka.revokeTokens();
+    await Promise.all([
+      plankaRequest("/api/users"),
+      plankaRequest("/api/users/me"),
+      plankaRequest("/api/projects"),
+    ]);
+    expect(logins()).toBe(3);
+  });
+
+  test("fails when the credentials are rejected", async () => {
+    planka.revokeTokens();
+    const password = process.env.PLANKA_AGENT_PASSWORD;
+    process.env.PLANKA_AGENT_PASSWORD = "wrong";
+    try {
+      await expect(plankaRequest("/api/users")).rejects.toThrow(
+        "Failed to authenticate agent",
+      );
+    } finally {
+      process.env.PLANKA_AGENT_PASSWORD = password;
+    }
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests of the board and project snapshot cache
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { clearSnapshotCache } from "../common/cache.js";
+import { plankaRequest } from "../common/utils.js";
+import {
+  createBoardMembership,
+  deleteBoardMembership,
+  updateBoardMembership,
+} from "../operations/boardMemberships.js";
+import { updateCard } from "../operations/cards.js";
+import {
+  createComment,
+  deleteComment,
+  updateComment,
+} from "../operations/comments.js";
+import { getBoardSummary } from "../tools/board-summary.js";
+import {
+  DEFAULT_FAKE_USER,
+  FakePlanka,
+  startFakePlanka,
+} from "./fake-planka.js";
+
+let planka: FakePlanka;
+let boardId: string;
+let cardId: string;
+
+function summarize() {
+  return getBoardSummary({
+    boardId,
+    includeTaskDetails: true,
+    includeComments: false,
+  });
+}
+
+// Runs a read and returns the requests it sent to Planka
+async function requestsOf(read: () => Promise<unknown>) {
+  const start = planka.requests.length;
+  await read();
+  return planka.requests.slice(start);
+}
+
+describe("Snapshot cache", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka({
+      users: [
+        DEFAULT_FAKE_USER,
+        {
+          id: "2",
+          email: "alice@example.com",
+          username: "alice",
+          name: "Alice",
+          password: "alice",
+        },
+      ],
+    });
+    process.env.PLANKA_BASE_URL = planka.url;
+
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Cache project" },
+    });
+    const board: any = await plankaRequest(
+      `/api/projects/${project.item.id}/boards`,
+      { method: "POST", body: { name: "Cache board", position: 1 } },
+    );
+    boardId = board.item.id;
+    for (const name of ["Backlog", "In Progress", "Done"]) {
+      const list: any = await plankaRequest(`/api/boards/${boardId}/lists`, {
+        method: "POST",
+        body: { name, position: 1 },
+      });
+      for (const cardName of ["First", "Second"]) {
+        const card: any = await plankaRequest(
+          `/api/lists/${list.item.id}/cards`,
+          { method: "POST", body: { name: `${name} ${cardName}` } },
+        );
+        cardId = card.item.id;
+      }
+    }
+  });
+
+  afterAll(async () => {
+    delete process.env.PLANKA_CACHE_TTL_MS;
+    await planka.close();
+  });
+
+  test("builds a board summary from one board request", async () => {
+    clearSnapshotCache();
+    const requests = await requestsOf(() => summarize());
+    expect(requests).toEqual([`GET /api/boards/${boardId}`]);
+
+    // A second summary within the TTL is served from the cache
+    expect(await requestsOf(() => summarize())).toEqual([]);
+  });
+
+  test("refetches the board after a change to one of its cards", async () => {
+    await updateCard(cardId, { name: "Renamed card" });
+    const requests = await requestsOf(() => summarize());
+    expect(requests).toEqual([`GET /api/boards/${boardId}`]);
+  });
+
+  test("refetches the board after a comment is edited or deleted", async () => {
+    const comment = await createComment({ cardId, text: "First" });
+    await summarize();
+
+    await updateComment(comment.id, { text: "Edited" });
+    expect(await requestsOf(() => summarize())).toEqual([
+      `GET /api/boards/${boardId}`,
+    ]);
+    await deleteComment(comment.id);
+    expect(await requestsOf(() => summarize())).toEqual([
+      `GET /api/boards/${boardId}`,
+    ]);
+  });
+
+  test("refetches the board after a membership changes", async () => {
+    const membership = await createBoardMembership({
+      boardId,
+      userId: "2",
+      role: "editor",
+    });
+    await summarize();
+
+    await updateBoardMembership(membership.id, { role: "viewer" });
+    expect(await requestsOf(() => summarize())).toEqual([
+      `GET /api/boards/${boardId}`,
+    ]);
+    await deleteBoardMembership(membership.id);
+    expect(await requestsOf(() => summarize())).toEqual([
+      `GET /api/boards/${boardId}`,
+    ]);
+  });
+
+  test("shares one request between concurrent reads", async () => {
+    clearSnapshotCache();
+    const requests = await requestsOf(() =>
+      Promise.all([summarize(), summarize()])
+    );
+    expect(requests).toEqual([`GET /api/boards/${boardId}`]);
+  });
+
+  test("PLANKA_CACHE_TTL_MS=0 turns the cache off", async () => {
+    process.env.PLANKA_CACHE_TTL_MS = "0";
+    await summarize();
+    const requests = await requestsOf(() => summarize());
+    expect(requests.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests of dry runs across the tools: the planned requests are reported and
+ * nothing is sent to Planka
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { runDryRun } from "../common/dry-run.js";
+import { plankaRequest } from "../common/utils.js";
+import { createBoardMembership } from "../operations/boardMemberships.js";
+import { createServer } from "../server.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let client: Client;
+let boardId: string;
+const listIds: Record<string, string> = {};
+let cardId: string;
+let labelId: string;
+let commentId: string;
+
+// Calls a tool with dryRun: true and returns the planned requests
+async function plan(name: string, args: Record<string, unknown>) {
+  const result: any = await client.callTool({
+    name,
+    arguments: { ...args, dryRun: true },
+  });
+  if (result.isError) {
+    throw new Error(result.content[0].text);
+  }
+  return JSON.parse(result.content[1].text).plannedRequests;
+}
+
+describe("Dry runs", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Dry-run project" },
+    });
+    const board: any = await plankaRequest(
+      `/api/projects/${project.item.id}/boards`,
+      { method: "POST", body: { name: "Dry-run board", position: 1 } },
+    );
+    boardId = board.item.id;
+    for (const [index, name] of ["Backlog", "In Progress"].entries()) {
+      const list: any = await plankaRequest(`/api/boards/${boardId}/lists`, {
+        method: "POST",
+        body: { name, position: index + 1 },
+      });
+      listIds[name] = list.item.id;
+    }
+    const card: any = await plankaRequest(
+      `/api/lists/${listIds.Backlog}/cards`,
+      { method: "POST", body: { name: "Dry-run card" } },
+    );
+    cardId = card.item.id;
+    const label: any = await plankaRequest(`/api/boards/${boardId}/labels`, {
+      method: "POST",
+      body: { name: "Bug", color: "berry-red", position: 1 },
+    });
+    labelId = label.item.id;
+    const comment: any = await plankaRequest(
+      `/api/cards/${cardId}/comments`,
+      { method: "POST", body: { text: "First" } },
+    );
+    commentId = comment.item.id;
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "dry-run-test", version: "1.0.0" });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await planka.close();
+  });
+
+  test("plans changes without sending them", async () => {
+    const store = JSON.stringify(planka.store);
+    const requestCount = planka.requests.length;
+
+    expect(
+      await plan("mcp_kanban_list_manager", {
+        action: "create",
+        boardId,
+        name: "Testing",
+        position: 3,
+      }),
+    ).toEqual([
+      {
+        method: "POST",
+        path: `/api/boards/${boardId}/lists`,
+        body: { name: "Testing", position: 3 },
+      },
+    ]);
+
+    expect(
+      await plan("mcp_kanban_label_manager", {
+        action: "add_to_card",
+        cardId,
+        labelId,
+      }),
+    ).toEqual([
+      {
+        method: "POST",
+        path: `/api/cards/${cardId}/card-labels`,
+        body: { labelId },
+      },
+    ]);
+
+    expect(
+      await plan("mcp_kanban_comment_manager", {
+        action: "update",
+        id: commentId,
+        cardId,
+        text: "Edited",
+      }),
+    ).toEqual([
+      {
+        method: "PATCH",
+        path: `/api/comments/${commentId}`,
+        body: { text: "Edited" },
+      },
+    ]);
+
+    const workflowPlan = await plan("mcp_kanban_workflow", {
+      action: "start_working",
+      cardId,
+    });
+    expect(workflowPlan).toContainEqual(
+      expect.objectContaining({
+        method: "PATCH",
+        path: `/api/cards/${cardId}`,
+        body: expect.objectContaining({ listId: listIds["In Progress"] }),
+      }),
+    );
+
+    // Planka was only read
+    expect(JSON.stringify(planka.store)).toBe(store);
+    expect(
+      planka.requests.slice(requestCount).filter((request) =>
+        !request.startsWith("GET ")
+      ),
+    ).toEqual([]);
+  });
+
+  test("later steps refer to the synthetic IDs of planned records", async () => {
+    const requests = await plan("mcp_kanban_card_manager", {
+      action: "create_with_tasks",
+      listId: listIds.Backlog,
+      name: "Planned card",
+      tasks: ["Design", "Build"],
+    });
+
+    // Each task becomes a task list of the planned card
+    const [createCard, ...createTaskLists] = requests;
+    expect(createCard).toMatchObject({
+      method: "POST",
+      path: `/api/lists/${listIds.Backlog}/cards`,
+      body: { name: "Planned card" },
+    });
+    expect(createTaskLists).toEqual([
+      {
+        method: "POST",
+        path: expect.stringMatching(/^\/api\/cards\/dry-run-\d+\/task-lists$/),
+        body: { name: "Design", position: 65535 },
+      },
+      {
+        method: "POST",
+        path: createTaskLists[0].path,
+        body: { name: "Build", position: 131070 },
+      },
+    ]);
+    expect(planka.store.cards.map((card) => card.name)).not.toContain(
+      "Planned card",
+    );
+  });
+
+  test("planned records reference the parent named by the route", async () => {
+    const { result } = await runDryRun(async () => ({
+      cardLabel: await plankaRequest(`/api/cards/${cardId}/card-labels`, {
+        method: "POST",
+        body: { labelId },
+      }),
+      membership: await createBoardMembership({
+        boardId,
+        userId: "2",
+        role: "viewer",
+      }),
+    }));
+
+    const cardLabel = (result.cardLabel as any).item;
+    expect(cardLabel).toMatchObject({ cardId, labelId });
+    expect(cardLabel).not.toHaveProperty("boardId");
+    expect(result.membership).toMatchObject({
+      boardId,
+      userId: "2",
+      role: "viewer",
+    });
+    expect(planka.store.boardMemberships).toHaveLength(0);
+  });
+});
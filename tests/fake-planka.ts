@@ -0,0 +1,814 @@
+/**
+ * In-process stand-in for the Planka 2 REST API
+ *
+ * Implements the endpoints the MCP Kanban server uses (access tokens, users,
+ * projects, boards, board memberships, lists, cards, card labels, card
+ * memberships, task lists, tasks, comments, labels and attachments, including
+ * multipart uploads and file downloads) on an in-memory
+ * store, answering with the same `item` / `items` / `included` shapes as
+ * Planka. Point PLANKA_BASE_URL at `url` to run the server or the test suite
+ * without a live Planka:
+ *
+ *   const planka = await startFakePlanka();
+ *   process.env.PLANKA_BASE_URL = planka.url;
+ *   ...
+ *   await planka.close();
+ *
+ * The fake does not enforce permissions beyond requiring a valid token, and
+ * only validates what the server relies on (required names, known IDs).
+ */
+
+import { randomUUID } from "node:crypto";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+
+type PlankaRecord = Record<string, any>;
+
+/**
+ * A user the fake accepts logins from
+ */
+export type FakePlankaUser = {
+  id: string;
+  email: string;
+  username: string;
+  name: string;
+  password: string;
+};
+
+/**
+ * The records held by the fake, by type
+ */
+export type FakePlankaStore = {
+  users: PlankaRecord[];
+  projects: PlankaRecord[];
+  boards: PlankaRecord[];
+  boardMemberships: PlankaRecord[];
+  lists: PlankaRecord[];
+  cards: PlankaRecord[];
+  cardLabels: PlankaRecord[];
+  cardMemberships: PlankaRecord[];
+  labels: PlankaRecord[];
+  taskLists: PlankaRecord[];
+  tasks: PlankaRecord[];
+  comments: PlankaRecord[];
+  attachments: PlankaRecord[];
+};
+
+/**
+ * A running fake Planka
+ * @property {string} url - The base URL to use as PLANKA_BASE_URL
+ * @property {FakePlankaStore} store - The records, for seeding and assertions
+ * @property {string[]} requests - "METHOD /path" of every request received
+ * @property {(status: number, options?: object) => void} failNext - Answers the next requests (default: 1) with an error status, e.g. 429 with a Retry-After header, instead of handling them
+ * @property {() => void} revokeTokens - Invalidates every access token, as if they had expired
+ * @property {() => Promise<void>} close - Stops the server
+ */
+export type FakePlanka = {
+  url: string;
+  store: FakePlankaStore;
+  requests: string[];
+  failNext: (
+    status: number,
+    options?: { count?: number; retryAfter?: number },
+  ) => void;
+  revokeTokens: () => void;
+  close: () => Promise<void>;
+};
+
+type Request = {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  body: PlankaRecord;
+  user: FakePlankaUser;
+};
+
+// A response sent as is instead of as JSON, e.g. a downloaded file
+class FileResponse {
+  constructor(
+    public readonly contentType: string,
+    public readonly content: Buffer,
+  ) {}
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    public readonly headers: Record<string, string> = {},
+  ) {
+    super(code);
+  }
+}
+
+/**
+ * The default user, matching the credentials in .jest/setEnvVars.js
+ */
+export const DEFAULT_FAKE_USER: FakePlankaUser = {
+  id: "1",
+  email: "demo@demo.demo",
+  username: "demo",
+  name: "Demo Demo",
+  password: "demo",
+};
+
+/**
+ * Starts a fake Planka on a free local port
+ *
+ * @param {object} [options] - Options for the fake
+ * @param {FakePlankaUser[]} [options.users] - The users that exist (default: DEFAULT_FAKE_USER)
+ * @returns {Promise<FakePlanka>} The running fake
+ */
+export async function startFakePlanka(
+  options: { users?: FakePlankaUser[] } = {},
+): Promise<FakePlanka> {
+  const users = options.users ?? [DEFAULT_FAKE_USER];
+  const store: FakePlankaStore = {
+    users: users.map(({ password: _, ...user }) => ({
+      ...user,
+      avatarUrl: null,
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+    })),
+    projects: [],
+    boards: [],
+    boardMemberships: [],
+    lists: [],
+    cards: [],
+    cardLabels: [],
+    cardMemberships: [],
+    labels: [],
+    taskLists: [],
+    tasks: [],
+    comments: [],
+    attachments: [],
+  };
+  // Uploaded file contents, by attachment ID
+  const files = new Map<string, FileResponse>();
+  // Set once the server listens; attachment URLs point at it
+  let baseUrl = "";
+  const tokens = new Map<string, FakePlankaUser>();
+  const requests: string[] = [];
+  // Errors to answer the next authenticated requests with
+  const failures: HttpError[] = [];
+  let idCount = 1000;
+
+  // ----- Store helpers -----
+
+  function create(
+    type: keyof FakePlankaStore,
+    fields: PlankaRecord,
+  ): PlankaRecord {
+    const record = {
+      id: String(++idCount),
+      ...fields,
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+    };
+    store[type].push(record);
+    return record;
+  }
+
+  function find(type: keyof FakePlankaStore, id: string): PlankaRecord {
+    const record = store[type].find((r) => r.id === id);
+    if (!record) {
+      throw new HttpError(404, "E_NOT_FOUND");
+    }
+    return record;
+  }
+
+  function update(record: PlankaRecord, fields: PlankaRecord): PlankaRecord {
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined && key !== "id") {
+        record[key] = value;
+      }
+    }
+    record.updatedAt = new Date().toISOString();
+    return record;
+  }
+
+  function remove(type: keyof FakePlankaStore, ids: string[]) {
+    store[type] = store[type].filter((r) => !ids.includes(r.id));
+  }
+
+  function childrenOf(
+    type: keyof FakePlankaStore,
+    key: string,
+    parentIds: string[],
+  ): PlankaRecord[] {
+    return store[type].filter((r) => parentIds.includes(r[key]));
+  }
+
+  function requireName(body: PlankaRecord) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      throw new HttpError(400, "E_MISSING_OR_INVALID_PARAMS");
+    }
+  }
+
+  // Deleting a record deletes everything below it, as Planka does
+  function deleteCards(cardIds: string[]) {
+    const taskLists = childrenOf("taskLists", "cardId", cardIds);
+    remove("tasks", ids(childrenOf("tasks", "taskListId", ids(taskLists))));
+    remove("taskLists", ids(taskLists));
+    remove("comments", ids(childrenOf("comments", "cardId", cardIds)));
+    remove("attachments", ids(childrenOf("attachments", "cardId", cardIds)));
+    remove("cardLabels", ids(childrenOf("cardLabels", "cardId", cardIds)));
+    remove(
+      "cardMemberships",
+      ids(childrenOf("cardMemberships", "cardId", cardIds)),
+    );
+    remove("cards", cardIds);
+  }
+
+  function deleteBoards(boardIds: string[]) {
+    const lists = childrenOf("lists", "boardId", boardIds);
+    deleteCards(ids(childrenOf("cards", "listId", ids(lists))));
+    remove("lists", ids(lists));
+    remove("labels", ids(childrenOf("labels", "boardId", boardIds)));
+    remove(
+      "boardMemberships",
+      ids(childrenOf("boardMemberships", "boardId", boardIds)),
+    );
+    remove("boards", boardIds);
+  }
+
+  function withCommentsTotal(card: PlankaRecord): PlankaRecord {
+    return {
+      ...card,
+      commentsTotal: childrenOf("comments", "cardId", [card.id]).length,
+    };
+  }
+
+  function cardIncluded(cardIds: string[]) {
+    const taskLists = childrenOf("taskLists", "cardId", cardIds);
+    return {
+      cardMemberships: childrenOf("cardMemberships", "cardId", cardIds),
+      cardLabels: childrenOf("cardLabels", "cardId", cardIds),
+      taskLists,
+      tasks: childrenOf("tasks", "taskListId", ids(taskLists)),
+      attachments: childrenOf("attachments", "cardId", cardIds),
+    };
+  }
+
+  function boardResponse(board: PlankaRecord) {
+    const lists = childrenOf("lists", "boardId", [board.id]);
+    const cards = childrenOf("cards", "listId", ids(lists));
+    const memberships = childrenOf("boardMemberships", "boardId", [board.id]);
+    return {
+      item: board,
+      included: {
+        users: store.users.filter((user) =>
+          memberships.some((m) => m.userId === user.id)
+        ),
+        boardMemberships: memberships,
+        labels: childrenOf("labels", "boardId", [board.id]),
+        lists,
+        cards: cards.map(withCommentsTotal),
+        ...cardIncluded(ids(cards)),
+        projects: [find("projects", board.projectId)],
+      },
+    };
+  }
+
+  function comment(record: PlankaRecord) {
+    // The comment shape the server's schemas expect
+    return {
+      ...record,
+      type: "commentCard",
+      data: { text: record.text },
+    };
+  }
+
+  // ----- Routes -----
+
+  type Handler = (req: Request) => unknown;
+  const routes: [string, RegExp, Handler][] = [];
+  const route = (method: string, path: string, handler: Handler) => {
+    routes.push([
+      method,
+      new RegExp(`^${path.replace(/:(\w+)/g, "([^/]+)")}$`),
+      handler,
+    ]);
+  };
+
+  // Users
+  route("GET", "/api/users", () => ({ items: store.users }));
+  route("GET", "/api/users/me", (req) => ({ item: find("users", req.user.id) }));
+
+  // Projects
+  route("GET", "/api/projects", () => ({
+    items: store.projects,
+    included: {
+      boards: store.boards,
+      boardMemberships: store.boardMemberships,
+      users: store.users,
+    },
+  }));
+  route("POST", "/api/projects", (req) => {
+    requireName(req.body);
+    return {
+      item: create("projects", {
+        name: req.body.name,
+        background: null,
+        backgroundImage: null,
+      }),
+    };
+  });
+  route("GET", "/api/projects/:id", (req) => {
+    const project = find("projects", req.params[0]);
+    return {
+      item: project,
+      included: { boards: childrenOf("boards", "projectId", [project.id]) },
+    };
+  });
+  route("PATCH", "/api/projects/:id", (req) => ({
+    item: update(find("projects", req.params[0]), req.body),
+  }));
+  route("DELETE", "/api/projects/:id", (req) => {
+    const project = find("projects", req.params[0]);
+    deleteBoards(ids(childrenOf("boards", "projectId", [project.id])));
+    remove("projects", [project.id]);
+    return { item: project };
+  });
+
+  // Boards
+  route("POST", "/api/projects/:id/boards", (req) => {
+    const project = find("projects", req.params[0]);
+    requireName(req.body);
+    return {
+      item: create("boards", {
+        projectId: project.id,
+        name: req.body.name,
+        position: req.body.position ?? 65535,
+      }),
+    };
+  });
+  route("GET", "/api/boards/:id", (req) =>
+    boardResponse(find("boards", req.params[0])));
+  route("PATCH", "/api/boards/:id", (req) => ({
+    item: update(find("boards", req.params[0]), req.body),
+  }));
+  route("DELETE", "/api/boards/:id", (req) => {
+    const board = find("boards", req.params[0]);
+    deleteBoards([board.id]);
+    return { item: board };
+  });
+
+  // Board memberships
+  route("GET", "/api/boards/:id/memberships", (req) => ({
+    items: childrenOf("boardMemberships", "boardId", [
+      find("boards", req.params[0]).id,
+    ]),
+  }));
+  route("POST", "/api/boards/:id/memberships", (req) => {
+    const board = find("boards", req.params[0]);
+    const user = find("users", req.body.userId);
+    if (
+      store.boardMemberships.some((m) =>
+        m.boardId === board.id && m.userId === user.id
+      )
+    ) {
+      throw new HttpError(409, "E_CONFLICT");
+    }
+    const membership = create("boardMemberships", {
+      boardId: board.id,
+      userId: user.id,
+      role: req.body.role ?? "editor",
+      canComment: null,
+    });
+    // Planka answers with a non-null updatedAt for memberships
+    membership.updatedAt = membership.createdAt;
+    return { item: membership };
+  });
+  route("GET", "/api/board-memberships/:id", (req) => ({
+    item: find("boardMemberships", req.params[0]),
+  }));
+  route("PATCH", "/api/board-memberships/:id", (req) => ({
+    item: update(find("boardMemberships", req.params[0]), req.body),
+  }));
+  route("DELETE", "/api/board-memberships/:id", (req) => {
+    const membership = find("boardMemberships", req.params[0]);
+    remove("boardMemberships", [membership.id]);
+    return { item: membership };
+  });
+
+  // Labels
+  route("POST", "/api/boards/:id/labels", (req) => {
+    const board = find("boards", req.params[0]);
+    return {
+      item: create("labels", {
+        boardId: board.id,
+        name: req.body.name ?? null,
+        color: req.body.color,
+        position: req.body.position ?? 65535,
+      }),
+    };
+  });
+  route("PATCH", "/api/labels/:id", (req) => ({
+    item: update(find("labels", req.params[0]), req.body),
+  }));
+  route("DELETE", "/api/labels/:id", (req) => {
+    const label = find("labels", req.params[0]);
+    remove("cardLabels", ids(childrenOf("cardLabels", "labelId", [label.id])));
+    remove("labels", [label.id]);
+    return { item: label };
+  });
+
+  // Lists
+  route("POST", "/api/boards/:id/lists", (req) => {
+    const board = find("boards", req.params[0]);
+    requireName(req.body);
+    return {
+      item: create("lists", {
+        boardId: board.id,
+        type: req.body.type ?? "active",
+        name: req.body.name,
+        position: req.body.position ?? 65535,
+      }),
+    };
+  });
+  route("GET", "/api/lists/:id", (req) => {
+    const list = find("lists", req.params[0]);
+    const cards = childrenOf("cards", "listId", [list.id]);
+    return {
+      item: list,
+      included: {
+        cards: cards.map(withCommentsTotal),
+        ...cardIncluded(ids(cards)),
+      },
+    };
+  });
+  route("PATCH", "/api/lists/:id", (req) => ({
+    item: update(find("lists", req.params[0]), req.body),
+  }));
+  route("DELETE", "/api/lists/:id", (req) => {
+    const list = find("lists", req.params[0]);
+    deleteCards(ids(childrenOf("cards", "listId", [list.id])));
+    remove("lists", [list.id]);
+    return { item: list };
+  });
+
+  // Cards
+  route("POST", "/api/lists/:id/cards", (req) => {
+    const list = find("lists", req.params[0]);
+    requireName(req.body);
+    return {
+      item: withCommentsTotal(create("cards", {
+        boardId: list.boardId,
+        listId: list.id,
+        creatorUserId: req.user.id,
+        type: req.body.type ?? "project",
+        name: req.body.name,
+        description: req.body.description ?? null,
+        position: req.body.position ?? 65535,
+        dueDate: req.body.dueDate ?? null,
+        isCompleted: false,
+        stopwatch: null,
+      })),
+    };
+  });
+  route("GET", "/api/cards/:id", (req) => {
+    const card = find("cards", req.params[0]);
+    return { item: withCommentsTotal(card), included: cardIncluded([card.id]) };
+  });
+  route("PATCH", "/api/cards/:id", (req) => {
+    const card = find("cards", req.params[0]);
+    const fields = { ...req.body };
+    if (fields.listId) {
+      // As in Planka, the list must be on the card's board unless the target
+      // board is given
+      const list = find("lists", fields.listId);
+      if (list.boardId !== (fields.boardId ?? card.boardId)) {
+        throw new HttpError(404, "E_NOT_FOUND");
+      }
+    }
+    delete fields.projectId;
+    return { item: withCommentsTotal(update(card, fields)) };
+  });
+  route("DELETE", "/api/cards/:id", (req) => {
+    const card = find("cards", req.params[0]);
+    deleteCards([card.id]);
+    return { item: card };
+  });
+
+  // Card labels and memberships
+  route("POST", "/api/cards/:id/card-labels", (req) => {
+    const card = find("cards", req.params[0]);
+    const label = find("labels", req.body.labelId);
+    if (
+      store.cardLabels.some((cl) =>
+        cl.cardId === card.id && cl.labelId === label.id
+      )
+    ) {
+      throw new HttpError(409, "E_CONFLICT");
+    }
+    const cardLabel = create("cardLabels", {
+      cardId: card.id,
+      labelId: label.id,
+    });
+    cardLabel.updatedAt = cardLabel.createdAt;
+    return { item: cardLabel };
+  });
+  route("DELETE", "/api/cards/:id/card-labels/labelId::labelId", (req) => {
+    const cardLabel = store.cardLabels.find((cl) =>
+      cl.cardId === req.params[0] && cl.labelId === req.params[1]
+    );
+    if (!cardLabel) {
+      throw new HttpError(404, "E_NOT_FOUND");
+    }
+    remove("cardLabels", [cardLabel.id]);
+    return { item: cardLabel };
+  });
+  route("POST", "/api/cards/:id/card-memberships", (req) => {
+    const card = find("cards", req.params[0]);
+    const user = find("users", req.body.userId);
+    if (
+      store.cardMemberships.some((cm) =>
+        cm.cardId === card.id && cm.userId === user.id
+      )
+    ) {
+      throw new HttpError(409, "E_CONFLICT");
+    }
+    return {
+      item: create("cardMemberships", { cardId: card.id, userId: user.id }),
+    };
+  });
+  route("DELETE", "/api/cards/:id/card-memberships/userId::userId", (req) => {
+    const membership = store.cardMemberships.find((cm) =>
+      cm.cardId === req.params[0] && cm.userId === req.params[1]
+    );
+    if (!membership) {
+      throw new HttpError(404, "E_NOT_FOUND");
+    }
+    remove("cardMemberships", [membership.id]);
+    return { item: membership };
+  });
+
+  // Task lists and tasks
+  route("POST", "/api/cards/:id/task-lists", (req) => {
+    const card = find("cards", req.params[0]);
+    requireName(req.body);
+    return {
+      item: create("taskLists", {
+        cardId: card.id,
+        name: req.body.name,
+        position: req.body.position ?? 65535,
+        showOnFrontOfCard: true,
+      }),
+    };
+  });
+  route("GET", "/api/task-lists/:id", (req) => {
+    const taskList = find("taskLists", req.params[0]);
+    return {
+      item: taskList,
+      included: { tasks: childrenOf("tasks", "taskListId", [taskList.id]) },
+    };
+  });
+  route("PATCH", "/api/task-lists/:id", (req) => ({
+    item: update(find("taskLists", req.params[0]), req.body),
+  }));
+  route("DELETE", "/api/task-lists/:id", (req) => {
+    const taskList = find("taskLists", req.params[0]);
+    remove("tasks", ids(childrenOf("tasks", "taskListId", [taskList.id])));
+    remove("taskLists", [taskList.id]);
+    return { item: taskList };
+  });
+  route("POST", "/api/task-lists/:id/tasks", (req) => {
+    const taskList = find("taskLists", req.params[0]);
+    requireName(req.body);
+    return {
+      item: create("tasks", {
+        taskListId: taskList.id,
+        assigneeUserId: null,
+        name: req.body.name,
+        isCompleted: req.body.isCompleted ?? false,
+        position: req.body.position ?? 65535,
+      }),
+    };
+  });
+  route("PATCH", "/api/tasks/:id", (req) => ({
+    item: update(find("tasks", req.params[0]), req.body),
+  }));
+  route("DELETE", "/api/tasks/:id", (req) => {
+    const task = find("tasks", req.params[0]);
+    remove("tasks", [task.id]);
+    return { item: task };
+  });
+
+  // Comments
+  route("GET", "/api/cards/:id/comments", (req) => ({
+    // Newest first, like Planka
+    items: childrenOf("comments", "cardId", [find("cards", req.params[0]).id])
+      .slice()
+      .reverse()
+      .map(comment),
+    included: { users: store.users },
+  }));
+  route("POST", "/api/cards/:id/comments", (req) => {
+    const card = find("cards", req.params[0]);
+    if (typeof req.body.text !== "string" || !req.body.text) {
+      throw new HttpError(400, "E_MISSING_OR_INVALID_PARAMS");
+    }
+    return {
+      item: comment(create("comments", {
+        cardId: card.id,
+        userId: req.user.id,
+        text: req.body.text,
+      })),
+    };
+  });
+  route("PATCH", "/api/comments/:id", (req) => ({
+    item: comment(update(find("comments", req.params[0]), {
+      text: req.body.text,
+    })),
+  }));
+  route("DELETE", "/api/comments/:id", (req) => {
+    const record = find("comments", req.params[0]);
+    remove("comments", [record.id]);
+    return { item: comment(record) };
+  });
+
+  // Attachments
+  route("POST", "/api/cards/:id/attachments", (req) => {
+    const card = find("cards", req.params[0]);
+    const file = req.body.file;
+    if (req.body.type !== "file" || !(file?.content instanceof Buffer)) {
+      throw new HttpError(400, "E_MISSING_OR_INVALID_PARAMS");
+    }
+    const attachment = create("attachments", {
+      cardId: card.id,
+      creatorUserId: req.user.id,
+      type: "file",
+      name: req.body.name || file.name,
+    });
+    attachment.data = {
+      filename: file.name,
+      mimeType: file.type || "application/octet-stream",
+      size: file.content.length,
+      url: `${baseUrl}/attachments/${attachment.id}/download/${
+        encodeURIComponent(file.name)
+      }`,
+      thumbnailUrls: null,
+    };
+    files.set(
+      attachment.id,
+      new FileResponse(attachment.data.mimeType, file.content),
+    );
+    return { item: attachment };
+  });
+  route("PATCH", "/api/attachments/:id", (req) => ({
+    item: update(find("attachments", req.params[0]), { name: req.body.name }),
+  }));
+  route("DELETE", "/api/attachments/:id", (req) => {
+    const attachment = find("attachments", req.params[0]);
+    remove("attachments", [attachment.id]);
+    files.delete(attachment.id);
+    return { item: attachment };
+  });
+  route("GET", "/attachments/:id/download/:filename", (req) => {
+    const attachment = find("attachments", req.params[0]);
+    if (req.params[1] !== attachment.data.filename) {
+      throw new HttpError(404, "E_NOT_FOUND");
+    }
+    return files.get(attachment.id);
+  });
+
+  // ----- Server -----
+
+  function handle(
+    method: string,
+    url: URL,
+    headers: http.IncomingHttpHeaders,
+    body: PlankaRecord,
+  ): unknown {
+    if (method === "POST" && url.pathname === "/api/access-tokens") {
+      const user = users.find((u) =>
+        (u.email === body.emailOrUsername ||
+          u.username === body.emailOrUsername) &&
+        u.password === body.password
+      );
+      if (!user) {
+        throw new HttpError(401, "E_UNAUTHORIZED");
+      }
+      const token = randomUUID();
+      tokens.set(token, user);
+      return { item: token };
+    }
+
+    const token = headers.authorization?.replace(/^Bearer /, "");
+    const user = token ? tokens.get(token) : undefined;
+    if (!user) {
+      throw new HttpError(401, "E_UNAUTHORIZED");
+    }
+    const failure = failures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    for (const [routeMethod, pattern, handler] of routes) {
+      const match = routeMethod === method && url.pathname.match(pattern);
+      if (match) {
+        return handler({
+          method,
+          params: match.slice(1).map(decodeURIComponent),
+          query: url.searchParams,
+          body,
+          user,
+        });
+      }
+    }
+    throw new HttpError(404, "E_NOT_FOUND");
+  }
+
+  // JSON bodies, or the fields and files of a multipart upload
+  async function parseBody(
+    headers: http.IncomingHttpHeaders,
+    raw: Buffer,
+  ): Promise<PlankaRecord> {
+    if (raw.length === 0) {
+      return {};
+    }
+    const contentType = headers["content-type"] ?? "";
+    if (!contentType.startsWith("multipart/form-data")) {
+      return JSON.parse(raw.toString("utf8"));
+    }
+    const form = await new Response(raw, {
+      headers: { "Content-Type": contentType },
+    }).formData();
+    const body: PlankaRecord = {};
+    for (const [name, value] of form.entries()) {
+      body[name] = typeof value === "string" ? value : {
+        name: value.name,
+        type: value.type,
+        content: Buffer.from(await value.arrayBuffer()),
+      };
+    }
+    return body;
+  }
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", async () => {
+      const method = req.method ?? "GET";
+      const url = new URL(req.url ?? "/", "http://localhost");
+      requests.push(`${method} ${url.pathname}`);
+
+      let status = 200;
+      let body: unknown;
+      let errorHeaders: Record<string, string> = {};
+      try {
+        body = handle(
+          method,
+          url,
+          req.headers,
+          await parseBody(req.headers, Buffer.concat(chunks)),
+        );
+      } catch (error) {
+        status = error instanceof HttpError ? error.status : 500;
+        errorHeaders = error instanceof HttpError ? error.headers : {};
+        body = {
+          code: error instanceof HttpError ? error.code : "E_INTERNAL",
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+      if (body instanceof FileResponse) {
+        res.writeHead(status, { "Content-Type": body.contentType });
+        res.end(body.content);
+        return;
+      }
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        ...errorHeaders,
+      });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    url: baseUrl,
+    store,
+    requests,
+    failNext: (status, { count = 1, retryAfter } = {}) => {
+      const headers: Record<string, string> = retryAfter === undefined
+        ? {}
+        : { "Retry-After": String(retryAfter) };
+      for (let i = 0; i < count; i++) {
+        failures.push(new HttpError(status, "E_INJECTED", headers));
+      }
+    },
+    revokeTokens: () => tokens.clear(),
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+function ids(records: PlankaRecord[]): string[] {
+  return records.map((record) => record.id);
+}
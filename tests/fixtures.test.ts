@@ -0,0 +1,82 @@
+/**
+ * Tests of recording Planka responses to a fixture file and replaying them
+ */
+import { afterAll, describe, expect, test } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { plankaRequest } from "../common/utils.js";
+import { DEFAULT_FAKE_USER, startFakePlanka } from "./fake-planka.js";
+
+const fixtureDirs: string[] = [];
+
+// Records a few requests against a fresh fake Planka into a fixture file of
+// its own, returning the recorded responses
+async function recordFixture() {
+  const fixtureDir = await mkdtemp(join(tmpdir(), "planka-fixtures-"));
+  fixtureDirs.push(fixtureDir);
+  process.env.PLANKA_FIXTURE_FILE = join(fixtureDir, "planka.json");
+
+  const planka = await startFakePlanka();
+  process.env.PLANKA_BASE_URL = planka.url;
+  process.env.PLANKA_FIXTURE_MODE = "record";
+  try {
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Recorded project" },
+    });
+    const users: any = await plankaRequest("/api/users");
+    return { project, users };
+  } finally {
+    await planka.close();
+  }
+}
+
+describe("Planka fixtures", () => {
+  afterAll(async () => {
+    delete process.env.PLANKA_FIXTURE_MODE;
+    delete process.env.PLANKA_FIXTURE_FILE;
+    for (const fixtureDir of fixtureDirs) {
+      await rm(fixtureDir, { recursive: true, force: true });
+    }
+  });
+
+  test("replays recorded responses without Planka", async () => {
+    const recorded = await recordFixture();
+
+    process.env.PLANKA_FIXTURE_MODE = "replay";
+    const replayed: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Recorded project" },
+    });
+    const replayedUsers: any = await plankaRequest("/api/users");
+
+    expect(replayed).toEqual(recorded.project);
+    expect(replayedUsers.items.map((user: any) => user.id)).toEqual(
+      recorded.users.items.map((user: any) => user.id),
+    );
+    await expect(
+      plankaRequest(`/api/projects/${recorded.project.item.id}`, {
+        method: "DELETE",
+      }),
+    ).rejects.toThrow("No recorded Planka response");
+  });
+
+  test("scrubs tokens, passwords and emails", async () => {
+    await recordFixture();
+
+    const content = await readFile(
+      process.env.PLANKA_FIXTURE_FILE!,
+      "utf8",
+    );
+    const { fixtures } = JSON.parse(content);
+
+    const login = fixtures.find((fixture: any) =>
+      fixture.path === "/api/access-tokens"
+    );
+    expect(login.body.item).toBe("<token>");
+    expect(login.requestBody.password).toBe("<redacted>");
+    expect(content).not.toContain(DEFAULT_FAKE_USER.email);
+    expect(content).toMatch(/user-[0-9a-f]{8}@example\.invalid/);
+  });
+});
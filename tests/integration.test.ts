@@ -4,15 +4,20 @@
  * This test suite tests all the tools provided by the MCP Kanban server.
  * It creates a project, board, list, card, etc. and then tests all operations on them.
  *
- * Note: These tests require a running Planka instance and valid credentials.
- * Set the following environment variables before running the tests:
- * - PLANKA_BASE_URL
- * - PLANKA_AGENT_EMAIL
- * - PLANKA_AGENT_PASSWORD
- * - PLANKA_ADMIN_EMAIL or PLANKA_ADMIN_USERNAME
+ * By default the tests run against the in-process fake Planka from
+ * fake-planka.ts. Set PLANKA_TEST_LIVE=true to run them against a running
+ * Planka instance instead (see .jest/setEnvVars.js for the URL and
+ * credentials).
  */
 
-import { afterAll, describe, expect, jest, test } from "@jest/globals";
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
 import * as boardMemberships from "../operations/boardMemberships.js";
 import * as boards from "../operations/boards.js";
 import * as cards from "../operations/cards.js";
@@ -32,6 +37,7 @@ import {
 // Import utilities for direct API calls
 import { getAdminUserId } from "../common/setup.js";
 import { plankaRequest } from "../common/utils.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
 
 // Test data
 const testPrefix = `test-${Date.now()}`;
@@ -52,6 +58,9 @@ let labelId: string;
 let taskId: string;
 let commentId: string;
 
+// The fake Planka, unless the tests run against a live instance
+let fakePlanka: FakePlanka | null = null;
+
 // Test timeout (5 minutes)
 jest.setTimeout(300000);
 
@@ -71,6 +80,13 @@ async function deleteProject(id: string) {
 }
 
 describe("MCP Kanban Integration Tests", () => {
+  beforeAll(async () => {
+    if (process.env.PLANKA_TEST_LIVE !== "true") {
+      fakePlanka = await startFakePlanka();
+      process.env.PLANKA_BASE_URL = fakePlanka.url;
+    }
+  });
+
   // Test getAdminUserId function
   describe("Admin User Setup", () => {
     test("should get admin user ID", async () => {
@@ -85,7 +101,7 @@ describe("MCP Kanban Integration Tests", () => {
     // Delete all created resources in reverse order
     try {
       if (commentId) await comments.deleteComment(commentId);
-      if (taskId) await tasks.deleteTask(taskId);
+      if (taskId) await tasks.deleteTaskList(taskId);
       if (labelId) await labels.deleteLabel(labelId);
       if (cardId) await cards.deleteCard(cardId);
       if (listId) await lists.deleteList(listId);
@@ -94,6 +110,7 @@ describe("MCP Kanban Integration Tests", () => {
     } catch (error) {
       console.error("Error during cleanup:", error);
     }
+    await fakePlanka?.close();
   });
 
   // Project tests
@@ -334,13 +351,13 @@ describe("MCP Kanban Integration Tests", () => {
   // Task tests
   describe("Task Operations", () => {
     test("should get tasks for a card", async () => {
-      const response: any[] = await tasks.getTasks(cardId);
+      const response: any[] = await tasks.getTaskLists(cardId);
       expect(response).toBeDefined();
       expect(Array.isArray(response)).toBe(true);
     });
 
     test("should create a task", async () => {
-      const result = await tasks.createTask({
+      const result = await tasks.createTaskList({
         cardId,
         name: taskName,
         position: 1,
@@ -352,7 +369,7 @@ describe("MCP Kanban Integration Tests", () => {
 
     test("should get a task by ID", async () => {
       // We need to pass the card ID to get the task
-      const result = await tasks.getTask(taskId, cardId);
+      const result = await tasks.getTaskList(taskId, cardId);
       expect(result).toBeDefined();
       expect(result.id).toBe(taskId);
       expect(result.name).toBe(taskName);
@@ -360,14 +377,16 @@ describe("MCP Kanban Integration Tests", () => {
 
     test("should update a task", async () => {
       const updatedName = `${taskName}-updated`;
-      const result = await tasks.updateTask(taskId, {
+      const result = await tasks.updateTaskList(taskId, {
         name: updatedName,
         position: 1,
       });
       expect(result).toBeDefined();
       expect(result.id).toBe(taskId);
       expect(result.name).toBe(updatedName);
-      expect(result.isCompleted).toBeDefined();
+      // updateTaskList updates a task list, which has no completion state of
+      // its own since task lists and tasks were separated
+      expect(result.cardId).toBe(cardId);
     });
 
     test("should batch create tasks", async () => {
@@ -382,14 +401,14 @@ describe("MCP Kanban Integration Tests", () => {
         },
       ];
 
-      const result = await tasks.batchCreateTasks({ tasks: batchTasks });
+      const result = await tasks.batchCreateTaskLists({ tasks: batchTasks });
       expect(result).toBeDefined();
       expect(Array.isArray(result.successes)).toBe(true);
       expect(result.successes.length).toBe(2);
 
       // Clean up batch created tasks
       for (const task of result.successes) {
-        await tasks.deleteTask(task.id);
+        await tasks.deleteTaskList(task.id);
       }
     });
   });
@@ -0,0 +1,113 @@
+/**
+ * Tests of the workflow prompts under a tool allowlist
+ *
+ * The tools config is loaded once per module, so the allowlist set before
+ * the server is created applies to every test here.
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { plankaRequest } from "../common/utils.js";
+import { createServer } from "../server.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let client: Client;
+let boardId: string;
+let cardId: string;
+
+async function promptText(name: string, args: Record<string, string>) {
+  const result = await client.getPrompt({ name, arguments: args });
+  const content: any = result.messages[0].content;
+  return content.text as string;
+}
+
+describe("Kanban prompts", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    process.env.PLANKA_TOOLS_CONFIG = JSON.stringify({
+      tools: {
+        mcp_kanban_stopwatch: false,
+        mcp_kanban_label_manager: { exclude: ["add_to_card"] },
+        mcp_kanban_workflow: { exclude: ["move_to_testing"] },
+      },
+    });
+
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Prompts project" },
+    });
+    const board: any = await plankaRequest(
+      `/api/projects/${project.item.id}/boards`,
+      { method: "POST", body: { name: "Prompts board", position: 1 } },
+    );
+    boardId = board.item.id;
+    const list: any = await plankaRequest(`/api/boards/${boardId}/lists`, {
+      method: "POST",
+      body: { name: "To Do", position: 1 },
+    });
+    const card: any = await plankaRequest(`/api/lists/${list.item.id}/cards`, {
+      method: "POST",
+      body: { name: "Prompt card" },
+    });
+    cardId = card.item.id;
+    await plankaRequest(`/api/lists/${list.item.id}/cards`, {
+      method: "POST",
+      body: { name: "[workflow]" },
+    });
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "prompts-test", version: "1.0.0" });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    delete process.env.PLANKA_TOOLS_CONFIG;
+    await client?.close();
+    await planka.close();
+  });
+
+  test("leaves out prompts whose action is disabled", async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((prompt) => prompt.name).sort()).toEqual([
+      "pick_next_card",
+      "plan_feature_as_cards",
+      "report_progress",
+    ]);
+  });
+
+  test("pick_next_card embeds the board and skips the stopwatch", async () => {
+    const text = await promptText("pick_next_card", { boardId });
+    expect(text).toContain('"Prompts board"');
+    expect(text).toContain(`Prompt card (id: ${cardId})`);
+    expect(text).toContain("To Do (list id: ");
+    expect(text).toContain(", 1 cards)");
+    expect(text).not.toContain("[workflow]");
+    expect(text).toContain('action: "start_working"');
+    expect(text).not.toContain("mcp_kanban_stopwatch");
+    expect(text).toContain("2. Tell me which card you picked and why.");
+  });
+
+  test("report_progress only suggests enabled actions", async () => {
+    const text = await promptText("report_progress", { cardId });
+    expect(text).toContain(`Card: Prompt card (id: ${cardId})`);
+    expect(text).toContain('action: "mark_completed"');
+    expect(text).toContain("say so in the comment");
+    expect(text).not.toContain("add_to_card");
+  });
+
+  test("plan_feature_as_cards skips labelling", async () => {
+    const text = await promptText("plan_feature_as_cards", {
+      boardId,
+      feature: "Dark mode",
+    });
+    expect(text).toContain('action: "create_with_tasks"');
+    expect(text).not.toContain("mcp_kanban_label_manager");
+    expect(text).toContain(
+      "3. Reply with the created cards in the order they should be worked on.",
+    );
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests of the Planka resources and resource templates
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { plankaRequest } from "../common/utils.js";
+import { createServer } from "../server.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let client: Client;
+let projectId: string;
+let boardId: string;
+let listId: string;
+let cardId: string;
+let labelId: string;
+
+// Reads a resource and parses its JSON content
+async function readJson(uri: string) {
+  const { contents } = await client.readResource({ uri });
+  expect(contents).toHaveLength(1);
+  expect(contents[0]).toMatchObject({ uri, mimeType: "application/json" });
+  return JSON.parse(contents[0].text as string);
+}
+
+describe("Planka resources", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Resources project" },
+    });
+    projectId = project.item.id;
+    const board: any = await plankaRequest(
+      `/api/projects/${projectId}/boards`,
+      { method: "POST", body: { name: "Resources board", position: 1 } },
+    );
+    boardId = board.item.id;
+    const list: any = await plankaRequest(`/api/boards/${boardId}/lists`, {
+      method: "POST",
+      body: { name: "In Progress", position: 1 },
+    });
+    listId = list.item.id;
+    const card: any = await plankaRequest(`/api/lists/${listId}/cards`, {
+      method: "POST",
+      body: { name: "Resource card" },
+    });
+    cardId = card.item.id;
+    const label: any = await plankaRequest(`/api/boards/${boardId}/labels`, {
+      method: "POST",
+      body: { name: "Bug", color: "berry-red", position: 1 },
+    });
+    labelId = label.item.id;
+    await plankaRequest(`/api/cards/${cardId}/card-labels`, {
+      method: "POST",
+      body: { labelId },
+    });
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "resources-test", version: "1.0.0" });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await planka.close();
+  });
+
+  test("lists projects and boards", async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.uri)).toEqual(
+      expect.arrayContaining([
+        "planka://projects",
+        `planka://project/${projectId}`,
+        `planka://board/${boardId}`,
+        `planka://board/${boardId}/summary`,
+      ]),
+    );
+    // Lists and cards are only reachable through their templates
+    expect(
+      resources.some((resource) =>
+        /^planka:\/\/(list|card)\//.test(resource.uri)
+      ),
+    ).toBe(false);
+  });
+
+  test("lists the resource templates", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate).sort())
+      .toEqual([
+        "planka://board/{boardId}",
+        "planka://board/{boardId}/summary",
+        "planka://card/{cardId}",
+        "planka://list/{listId}",
+        "planka://project/{projectId}",
+      ]);
+  });
+
+  test("reads a board with its lists, cards and labels", async () => {
+    const board = await readJson(`planka://board/${boardId}`);
+    expect(board.board.id).toBe(boardId);
+    expect(board.lists.map((list: any) => list.id)).toEqual([listId]);
+    expect(board.lists[0].cards.map((card: any) => card.id)).toEqual([
+      cardId,
+    ]);
+    expect(board.labels.map((label: any) => label.id)).toEqual([labelId]);
+  });
+
+  test("reads a board summary", async () => {
+    const summary = await readJson(`planka://board/${boardId}/summary`);
+    expect(summary.stats.totalCards).toBe(1);
+    expect(summary.lists.map((list: any) => list.id)).toEqual([listId]);
+  });
+
+  test("reads a list with its cards", async () => {
+    const list = await readJson(`planka://list/${listId}`);
+    expect(list.list.id).toBe(listId);
+    expect(list.cards.map((card: any) => card.id)).toEqual([cardId]);
+  });
+
+  test("reads the details of a card", async () => {
+    const card = await readJson(`planka://card/${cardId}`);
+    expect(card.card.id).toBe(cardId);
+    expect(card.labels.map((label: any) => label.id)).toEqual([labelId]);
+  });
+
+  test.each([
+    ["project", "planka://project/missing-project"],
+    ["board", "planka://board/missing-board"],
+    ["board summary", "planka://board/missing-board/summary"],
+    ["list", "planka://list/missing-list"],
+    ["card", "planka://card/missing-card"],
+  ])("fails to read a %s that does not exist", async (_, uri) => {
+    const read = client.readResource({ uri });
+    await expect(read).rejects.toBeInstanceOf(McpError);
+    await expect(read).rejects.toThrow("not found");
+  });
+});
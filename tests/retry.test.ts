@@ -0,0 +1,84 @@
+/**
+ * Tests of the retry policy for rate-limited and transient Planka failures
+ */
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+import { PlankaError, PlankaRateLimitError } from "../common/errors.js";
+import { withRetry } from "../common/retry.js";
+import { plankaRequest } from "../common/utils.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+const policy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000 };
+
+let planka: FakePlanka;
+
+describe("Retry policy", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    process.env.PLANKA_RETRY_BASE_DELAY_MS = "0";
+    // Log in before failures are injected
+    await plankaRequest("/api/users/me");
+  });
+
+  afterAll(async () => {
+    delete process.env.PLANKA_RETRY_BASE_DELAY_MS;
+    await planka.close();
+  });
+
+  test("retries a rate-limited request after Retry-After", async () => {
+    planka.failNext(429, { retryAfter: 0 });
+    const response: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Retried project" },
+    });
+
+    expect(response.item.name).toBe("Retried project");
+    expect(
+      planka.requests.filter((request) => request === "POST /api/projects"),
+    ).toHaveLength(2);
+  });
+
+  test("retries reads after 5xx responses", async () => {
+    planka.failNext(503, { count: 2 });
+    const response: any = await plankaRequest("/api/users/me");
+    expect(response.item.username).toBe("demo");
+  });
+
+  test("does not repeat a POST after a 5xx response", async () => {
+    planka.failNext(500);
+    const before = planka.requests.length;
+    await expect(
+      plankaRequest("/api/projects", {
+        method: "POST",
+        body: { name: "Not retried" },
+      }),
+    ).rejects.toThrow();
+    expect(planka.requests.length - before).toBe(1);
+  });
+
+  test("gives up after maxAttempts", async () => {
+    const request = jest.fn(async () => {
+      throw new PlankaError("Unavailable", 503, {});
+    });
+    await expect(withRetry(request, { method: "GET", policy })).rejects
+      .toThrow("Unavailable");
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  test("does not wait for a rate limit longer than maxDelayMs", async () => {
+    const resetAt = new Date(Date.now() + 60000);
+    const request = jest.fn(async () => {
+      throw new PlankaRateLimitError("Slow down", resetAt);
+    });
+    await expect(withRetry(request, { method: "GET", policy })).rejects
+      .toThrow("Slow down");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
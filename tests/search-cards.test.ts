@@ -0,0 +1,121 @@
+/**
+ * Tests of the card search: due date bounds and comment lookups
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { plankaRequest } from "../common/utils.js";
+import { createCard as createPlankaCard } from "../operations/cards.js";
+import { createList } from "../operations/lists.js";
+import { searchCards } from "../tools/search-cards.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let boardId: string;
+let listId: string;
+
+// Creates a card through the operations, so the cached snapshot is dropped
+async function createCard(name: string, comment?: string) {
+  const card = await createPlankaCard({ listId, name });
+  if (comment) {
+    await plankaRequest(`/api/cards/${card.id}/comments`, {
+      method: "POST",
+      body: { text: comment },
+    });
+  }
+  return card.id;
+}
+
+describe("searchCards", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Search project" },
+    });
+    const board: any = await plankaRequest(
+      `/api/projects/${project.item.id}/boards`,
+      { method: "POST", body: { name: "Search board", position: 1 } },
+    );
+    boardId = board.item.id;
+    const list: any = await plankaRequest(`/api/boards/${boardId}/lists`, {
+      method: "POST",
+      body: { name: "To Do", position: 1 },
+    });
+    listId = list.item.id;
+  });
+
+  afterAll(async () => {
+    await planka.close();
+  });
+
+  test("a dueBefore date without a time includes that whole day", async () => {
+    const cardId = await createCard("Due in the afternoon");
+    await plankaRequest(`/api/cards/${cardId}`, {
+      method: "PATCH",
+      body: { dueDate: "2026-11-01T15:00:00.000Z" },
+    });
+
+    const sameDay = await searchCards({
+      boardId,
+      includeComments: false,
+      dueBefore: "2026-11-01",
+    });
+    expect(sameDay.results.map((result) => result.card.id)).toEqual([
+      cardId,
+    ]);
+
+    const dayBefore = await searchCards({
+      boardId,
+      includeComments: false,
+      dueBefore: "2026-10-31",
+    });
+    expect(dayBefore.total).toBe(0);
+
+    const beforeTime = await searchCards({
+      boardId,
+      includeComments: false,
+      dueBefore: "2026-11-01T12:00:00.000Z",
+    });
+    expect(beforeTime.total).toBe(0);
+  });
+
+  test("searches the comments of many cards", async () => {
+    const cardIds: string[] = [];
+    for (let i = 0; i < 12; i++) {
+      cardIds.push(await createCard(`Card ${i}`, `haystack needle ${i}`));
+    }
+
+    const result = await searchCards({
+      boardId,
+      query: "needle",
+      includeComments: true,
+      limit: 20,
+    });
+    expect(result.results.map((r) => r.card.id).sort()).toEqual(
+      [...cardIds].sort(),
+    );
+    expect(result.unreadableComments).toBeUndefined();
+  });
+
+  test("skips cards whose comments cannot be read", async () => {
+    listId = (await createList({ boardId, name: "Flaky", position: 2 })).id;
+    const cardIds = [
+      await createCard("First flaky card", "flaky needle"),
+      await createCard("Second flaky card", "flaky needle"),
+    ];
+    // Cache the board snapshot, so the failure hits a comments request
+    await searchCards({ boardId, includeComments: false });
+
+    planka.failNext(404);
+    const result = await searchCards({
+      boardId,
+      listId,
+      query: "needle",
+      includeComments: true,
+    });
+    expect(result.unreadableComments).toHaveLength(1);
+    expect(result.results.map((r) => r.card.id)).toEqual(
+      cardIds.filter((id) => id !== result.unreadableComments![0]),
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests of resource subscriptions and the polling engine behind them
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { plankaRequest } from "../common/utils.js";
+import { registerResourceSubscriptions } from "../resources/index.js";
+import { createServer } from "../server.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let client: Client;
+let listId: string;
+let cardId: string;
+let commentId: string;
+const updates: string[] = [];
+
+// Waits for a notification about a resource, up to a few poll intervals
+async function waitForUpdate(uri: string) {
+  for (let i = 0; i < 50 && !updates.includes(uri); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return updates.includes(uri);
+}
+
+describe("Resource subscriptions", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    process.env.PLANKA_POLL_INTERVAL_MS = "20";
+    // Changes are made behind the server's back, as a person in Planka would
+    process.env.PLANKA_CACHE_TTL_MS = "0";
+
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Subscriptions project" },
+    });
+    const board: any = await plankaRequest(
+      `/api/projects/${project.item.id}/boards`,
+      { method: "POST", body: { name: "Subscriptions board", position: 1 } },
+    );
+    const list: any = await plankaRequest(
+      `/api/boards/${board.item.id}/lists`,
+      { method: "POST", body: { name: "Backlog", position: 1 } },
+    );
+    listId = list.item.id;
+    const card: any = await plankaRequest(`/api/lists/${listId}/cards`, {
+      method: "POST",
+      body: { name: "Watched card" },
+    });
+    cardId = card.item.id;
+    const comment: any = await plankaRequest(`/api/cards/${cardId}/comments`, {
+      method: "POST",
+      body: { text: "First review" },
+    });
+    commentId = comment.item.id;
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "subscriptions-test", version: "1.0.0" });
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        updates.push(notification.params.uri);
+      },
+    );
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    delete process.env.PLANKA_POLL_INTERVAL_MS;
+    delete process.env.PLANKA_CACHE_TTL_MS;
+    await planka.close();
+  });
+
+  test("notifies card subscribers about comment edits", async () => {
+    const uri = `planka://card/${cardId}`;
+    await client.subscribeResource({ uri });
+    // Let the engine record the current state
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(updates).not.toContain(uri);
+
+    await plankaRequest(`/api/comments/${commentId}`, {
+      method: "PATCH",
+      body: { text: "Edited review" },
+    });
+    expect(await waitForUpdate(uri)).toBe(true);
+  });
+
+  test("notifies list subscribers about new cards", async () => {
+    const uri = `planka://list/${listId}`;
+    await client.subscribeResource({ uri });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await plankaRequest(`/api/lists/${listId}/cards`, {
+      method: "POST",
+      body: { name: "New card" },
+    });
+    expect(await waitForUpdate(uri)).toBe(true);
+  });
+
+  test("stops notifying after unsubscribing", async () => {
+    const uri = `planka://card/${cardId}`;
+    await client.unsubscribeResource({ uri });
+    updates.length = 0;
+
+    await plankaRequest(`/api/cards/${cardId}`, {
+      method: "PATCH",
+      body: { name: "Renamed card" },
+    });
+    expect(await waitForUpdate(uri)).toBe(false);
+  });
+
+  test("rejects URIs that cannot be watched", async () => {
+    await expect(
+      client.subscribeResource({ uri: "https://example.com" }),
+    ).rejects.toThrow("Cannot subscribe");
+  });
+
+  test.each([
+    "planka://project",
+    "planka://board",
+    "planka://list",
+    "planka://card",
+    "planka://card/",
+  ])("rejects %s without an ID", async (uri) => {
+    await expect(client.subscribeResource({ uri })).rejects.toThrow(
+      `Cannot subscribe to ${uri}`,
+    );
+  });
+
+  test("accepts the projects resource", async () => {
+    const uri = "planka://projects";
+    await client.subscribeResource({ uri });
+    await client.unsubscribeResource({ uri });
+  });
+
+  test("keeps an existing close handler", async () => {
+    const server = new McpServer(
+      { name: "close-test", version: "1.0.0" },
+      { capabilities: { resources: { subscribe: true } } },
+    );
+    let closed = false;
+    server.server.onclose = () => {
+      closed = true;
+    };
+    registerResourceSubscriptions(server);
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    const otherClient = new Client({ name: "close-test", version: "1.0.0" });
+    await server.connect(serverTransport);
+    await otherClient.connect(clientTransport);
+    await otherClient.close();
+
+    expect(closed).toBe(true);
+  });
+});
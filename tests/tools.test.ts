@@ -0,0 +1,654 @@
+/**
+ * End-to-end tests of the MCP tools
+ *
+ * Calls every mcp_kanban_* tool through an MCP client connected to the
+ * server in-process. Like the integration tests, they run against the fake
+ * Planka unless PLANKA_TEST_LIVE=true.
+ */
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  jest,
+  test,
+} from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { clearSnapshotCache } from "../common/cache.js";
+import { plankaRequest } from "../common/utils.js";
+import { createServer } from "../server.js";
+import {
+  DEFAULT_FAKE_USER,
+  FakePlanka,
+  startFakePlanka,
+} from "./fake-planka.js";
+
+jest.setTimeout(300000);
+
+const testPrefix = `tools-test-${Date.now()}`;
+
+let fakePlanka: FakePlanka | null = null;
+let client: Client;
+let projectId: string;
+let boardId: string;
+const listIds: Record<string, string> = {};
+let cardId: string;
+let taskListId: string;
+let taskId: string;
+let labelId: string;
+let commentId: string;
+let attachmentsDir: string;
+
+// Calls a tool and parses the JSON of its first content item
+async function callTool(name: string, args: Record<string, unknown>) {
+  const result: any = await client.callTool({ name, arguments: args });
+  if (result.isError) {
+    throw new Error(result.content[0].text);
+  }
+  return JSON.parse(result.content[0].text);
+}
+
+describe("MCP Kanban Tools", () => {
+  beforeAll(async () => {
+    if (process.env.PLANKA_TEST_LIVE !== "true") {
+      fakePlanka = await startFakePlanka();
+      process.env.PLANKA_BASE_URL = fakePlanka.url;
+    }
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "tools-test", version: "1.0.0" });
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: `${testPrefix}-project` },
+    });
+    projectId = project.item.id;
+  });
+
+  afterAll(async () => {
+    try {
+      if (projectId) {
+        await plankaRequest(`/api/projects/${projectId}`, {
+          method: "DELETE",
+        });
+      }
+    } catch (error) {
+      console.error("Error during cleanup:", error);
+    }
+    await client?.close();
+    if (attachmentsDir) {
+      await rm(attachmentsDir, { recursive: true, force: true });
+    }
+    await fakePlanka?.close();
+  });
+
+  test("lists every tool", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      "mcp_kanban_attachment_manager",
+      "mcp_kanban_audit_log",
+      "mcp_kanban_card_manager",
+      "mcp_kanban_comment_manager",
+      "mcp_kanban_label_manager",
+      "mcp_kanban_list_manager",
+      "mcp_kanban_membership_manager",
+      "mcp_kanban_project_board_manager",
+      "mcp_kanban_search_cards",
+      "mcp_kanban_stopwatch",
+      "mcp_kanban_task_manager",
+      "mcp_kanban_undo",
+      "mcp_kanban_workflow",
+    ]);
+  });
+
+  test("mcp_kanban_project_board_manager", async () => {
+    const board = await callTool("mcp_kanban_project_board_manager", {
+      action: "create_board",
+      projectId,
+      name: `${testPrefix}-board`,
+      position: 1,
+    });
+    boardId = board.id;
+    expect(board.projectId).toBe(projectId);
+
+    const project = await callTool("mcp_kanban_project_board_manager", {
+      action: "get_project",
+      id: projectId,
+    });
+    expect(project.id).toBe(projectId);
+
+    const boards = await callTool("mcp_kanban_project_board_manager", {
+      action: "get_boards",
+      projectId,
+    });
+    expect(boards.map((b: any) => b.id)).toContain(boardId);
+
+    const updated = await callTool("mcp_kanban_project_board_manager", {
+      action: "update_board",
+      id: boardId,
+      name: `${testPrefix}-board-updated`,
+      position: 2,
+    });
+    expect(updated.name).toBe(`${testPrefix}-board-updated`);
+  });
+
+  test("mcp_kanban_list_manager", async () => {
+    const list = await callTool("mcp_kanban_list_manager", {
+      action: "create",
+      boardId,
+      name: `${testPrefix}-list`,
+      position: 1,
+    });
+
+    // New boards get the default workflow lists
+    const lists = await callTool("mcp_kanban_list_manager", {
+      action: "get_all",
+      boardId,
+    });
+    for (const { id, name } of lists) {
+      listIds[name] = id;
+    }
+    expect(Object.keys(listIds)).toEqual(
+      expect.arrayContaining(["Backlog", "In Progress", list.name]),
+    );
+
+    const updated = await callTool("mcp_kanban_list_manager", {
+      action: "update",
+      id: list.id,
+      name: `${testPrefix}-list-updated`,
+      position: 2,
+    });
+    expect(updated.name).toBe(`${testPrefix}-list-updated`);
+  });
+
+  test("mcp_kanban_card_manager", async () => {
+    const card = await callTool("mcp_kanban_card_manager", {
+      action: "create_with_tasks",
+      listId: listIds.Backlog,
+      name: `${testPrefix}-card`,
+      tasks: ["First task", "Second task"],
+      comment: "Created by the tools test",
+    });
+    cardId = card.card.id;
+    expect(card.tasks).toHaveLength(2);
+
+    const updated = await callTool("mcp_kanban_card_manager", {
+      action: "update",
+      id: cardId,
+      description: "Updated description",
+    });
+    expect(updated.description).toBe("Updated description");
+
+    const details = await callTool("mcp_kanban_card_manager", {
+      action: "get_details",
+      cardId,
+    });
+    expect(details.card.id).toBe(cardId);
+
+    const cards = await callTool("mcp_kanban_card_manager", {
+      action: "get_all",
+      listId: listIds.Backlog,
+    });
+    expect(cards.map((c: any) => c.id)).toContain(cardId);
+
+    // A list that does not exist is an error, not a list without cards
+    await expect(
+      callTool("mcp_kanban_card_manager", {
+        action: "get_all",
+        listId: "missing-list",
+      }),
+    ).rejects.toThrow("Resource not found: List missing-list");
+  });
+
+  test("mcp_kanban_card_manager assignments", async () => {
+    const membership = await callTool("mcp_kanban_card_manager", {
+      action: "assign_to_me",
+      id: cardId,
+    });
+    expect(membership.userId).toBe(DEFAULT_FAKE_USER.id);
+
+    const members = await callTool("mcp_kanban_card_manager", {
+      action: "get_members",
+      id: cardId,
+    });
+    expect(members.map((m: any) => m.user.username)).toEqual([
+      DEFAULT_FAKE_USER.username,
+    ]);
+    const details = await callTool("mcp_kanban_card_manager", {
+      action: "get_details",
+      cardId,
+    });
+    expect(details.members).toEqual(members);
+
+    const mine = await callTool("mcp_kanban_card_manager", {
+      action: "get_all",
+      listId: listIds.Backlog,
+      assignee: "me",
+    });
+    expect(mine.map((c: any) => c.id)).toEqual([cardId]);
+
+    await callTool("mcp_kanban_card_manager", {
+      action: "remove_member",
+      id: cardId,
+      userId: DEFAULT_FAKE_USER.id,
+    });
+    const byUsername = await callTool("mcp_kanban_card_manager", {
+      action: "get_all",
+      listId: listIds.Backlog,
+      assignee: DEFAULT_FAKE_USER.username,
+    });
+    expect(byUsername).toEqual([]);
+    const byId = await callTool("mcp_kanban_card_manager", {
+      action: "get_all",
+      listId: listIds.Backlog,
+      assignee: DEFAULT_FAKE_USER.id,
+    });
+    expect(byId).toEqual([]);
+    await expect(
+      callTool("mcp_kanban_card_manager", {
+        action: "get_all",
+        listId: listIds.Backlog,
+        assignee: "nobody",
+      }),
+    ).rejects.toThrow('Unknown assignee "nobody"');
+
+    // Undoing the removal assigns the user again
+    await callTool("mcp_kanban_undo", { action: "undo" });
+    const restored = await callTool("mcp_kanban_card_manager", {
+      action: "get_members",
+      id: cardId,
+    });
+    expect(restored.map((m: any) => m.userId)).toEqual([DEFAULT_FAKE_USER.id]);
+  });
+
+  test("mcp_kanban_stopwatch", async () => {
+    await callTool("mcp_kanban_stopwatch", { action: "start", id: cardId });
+    const stopwatch = await callTool("mcp_kanban_stopwatch", {
+      action: "get",
+      id: cardId,
+    });
+    expect(stopwatch.isRunning).toBe(true);
+    await callTool("mcp_kanban_stopwatch", { action: "stop", id: cardId });
+  });
+
+  test("mcp_kanban_label_manager", async () => {
+    const label = await callTool("mcp_kanban_label_manager", {
+      action: "create",
+      boardId,
+      name: `${testPrefix}-label`,
+      color: "berry-red",
+      position: 1,
+    });
+    labelId = label.id;
+
+    await callTool("mcp_kanban_label_manager", {
+      action: "add_to_card",
+      cardId,
+      labelId,
+    });
+    const labels = await callTool("mcp_kanban_label_manager", {
+      action: "get_all",
+      boardId,
+    });
+    expect(labels.map((l: any) => l.id)).toContain(labelId);
+
+    // Card details only list the labels attached to the card
+    const other = await callTool("mcp_kanban_label_manager", {
+      action: "create",
+      boardId,
+      name: `${testPrefix}-other-label`,
+      color: "lagoon-blue",
+      position: 2,
+    });
+    const details = await callTool("mcp_kanban_card_manager", {
+      action: "get_details",
+      cardId,
+    });
+    expect(details.labels.map((l: any) => l.id)).toEqual([labelId]);
+    expect(details.labels.map((l: any) => l.id)).not.toContain(other.id);
+  });
+
+  test("mcp_kanban_task_manager", async () => {
+    const taskList = await callTool("mcp_kanban_task_manager", {
+      action: "create",
+      cardId,
+      name: `${testPrefix}-task-list`,
+    });
+    taskListId = taskList.id;
+
+    const task = await callTool("mcp_kanban_task_manager", {
+      action: "create_task",
+      taskListId,
+      name: `${testPrefix}-task`,
+    });
+    taskId = task.id;
+
+    const completed = await callTool("mcp_kanban_task_manager", {
+      action: "complete_task",
+      id: taskId,
+    });
+    expect(completed.isCompleted).toBe(true);
+
+    const taskLists = await callTool("mcp_kanban_task_manager", {
+      action: "get_all",
+      cardId,
+    });
+    expect(taskLists.map((t: any) => t.id)).toContain(taskListId);
+  });
+
+  test("mcp_kanban_task_manager finds task lists and tasks without a cardId", async () => {
+    // Created directly, so neither the server's index nor its cache knows them
+    const board: any = await plankaRequest(`/api/projects/${projectId}/boards`, {
+      method: "POST",
+      body: { name: `${testPrefix}-other-board`, position: 2 },
+    });
+    const list: any = await plankaRequest(`/api/boards/${board.item.id}/lists`, {
+      method: "POST",
+      body: { name: "Elsewhere", position: 1 },
+    });
+    const createCardWithTask = async (name: string) => {
+      const card: any = await plankaRequest(`/api/lists/${list.item.id}/cards`, {
+        method: "POST",
+        body: { name },
+      });
+      const taskList: any = await plankaRequest(
+        `/api/cards/${card.item.id}/task-lists`,
+        { method: "POST", body: { name: `${name} checklist`, position: 1 } },
+      );
+      const task: any = await plankaRequest(
+        `/api/task-lists/${taskList.item.id}/tasks`,
+        { method: "POST", body: { name: `${name} task` } },
+      );
+      return { taskListId: taskList.item.id, taskId: task.item.id };
+    };
+    const first = await createCardWithTask(`${testPrefix}-first`);
+    const second = await createCardWithTask(`${testPrefix}-second`);
+    clearSnapshotCache();
+
+    const taskList = await callTool("mcp_kanban_task_manager", {
+      action: "get_one",
+      id: first.taskListId,
+    });
+    expect(taskList.name).toBe(`${testPrefix}-first checklist`);
+    expect(taskList.tasks.map((t: any) => t.id)).toEqual([first.taskId]);
+
+    // A task has no endpoint of its own, so it is searched board by board
+    clearSnapshotCache();
+    const requestCount = fakePlanka?.requests.length ?? 0;
+    const task = await callTool("mcp_kanban_task_manager", {
+      action: "get_task",
+      id: second.taskId,
+    });
+    expect(task.name).toBe(`${testPrefix}-second task`);
+    if (fakePlanka) {
+      expect(fakePlanka.requests.slice(requestCount)).toEqual(
+        expect.arrayContaining([
+          "GET /api/projects",
+          `GET /api/boards/${board.item.id}`,
+        ]),
+      );
+    }
+
+    await expect(
+      callTool("mcp_kanban_task_manager", {
+        action: "get_one",
+        id: "missing-task-list",
+      }),
+    ).rejects.toThrow("Resource not found: Task list missing-task-list");
+    await expect(
+      callTool("mcp_kanban_task_manager", {
+        action: "get_task",
+        id: "missing-task",
+      }),
+    ).rejects.toThrow("Resource not found: Task missing-task");
+  });
+
+  test("mcp_kanban_comment_manager", async () => {
+    const comment = await callTool("mcp_kanban_comment_manager", {
+      action: "create",
+      cardId,
+      text: "First version",
+    });
+    commentId = comment.id;
+
+    const updated = await callTool("mcp_kanban_comment_manager", {
+      action: "update",
+      id: commentId,
+      cardId,
+      text: "Second version",
+    });
+    expect(updated.data.text).toBe("Second version");
+
+    const comments = await callTool("mcp_kanban_comment_manager", {
+      action: "get_all",
+      cardId,
+    });
+    expect(comments.map((c: any) => c.id)).toContain(commentId);
+  });
+
+  test("mcp_kanban_search_cards", async () => {
+    const byDescription = await callTool("mcp_kanban_search_cards", {
+      action: "search",
+      query: "updated description",
+      projectId,
+      labels: [`${testPrefix}-label`],
+      members: [DEFAULT_FAKE_USER.username],
+      isCompleted: false,
+    });
+    expect(byDescription.total).toBe(1);
+    expect(byDescription.results[0].card.id).toBe(cardId);
+    expect(byDescription.results[0].matchedIn).toEqual(["description"]);
+    expect(byDescription.results[0].list.id).toBe(listIds.Backlog);
+    expect(byDescription.results[0].project.id).toBe(projectId);
+
+    const byComment = await callTool("mcp_kanban_search_cards", {
+      action: "search",
+      query: "second version",
+      boardId,
+    });
+    expect(byComment.total).toBe(0);
+    const withComments = await callTool("mcp_kanban_search_cards", {
+      action: "search",
+      query: "second version",
+      boardId,
+      includeComments: true,
+    });
+    expect(withComments.results.map((r: any) => r.card.id)).toEqual([cardId]);
+
+    const byDueDate = await callTool("mcp_kanban_search_cards", {
+      action: "search",
+      boardId,
+      dueBefore: "2100-01-01",
+    });
+    expect(byDueDate.total).toBe(0);
+  });
+
+  test("mcp_kanban_attachment_manager", async () => {
+    attachmentsDir = await mkdtemp(join(tmpdir(), "planka-attachments-"));
+    process.env.PLANKA_ATTACHMENTS_DIR = attachmentsDir;
+    const filePath = join(attachmentsDir, "report.bin");
+    const bytes = Buffer.from([0, 1, 2, 253, 254, 255]);
+    await writeFile(filePath, bytes);
+
+    const uploaded = await callTool("mcp_kanban_attachment_manager", {
+      action: "upload",
+      cardId,
+      filePath,
+    });
+    expect(uploaded.name).toBe("report.bin");
+    const note = await callTool("mcp_kanban_attachment_manager", {
+      action: "upload",
+      cardId,
+      content: "Release notes",
+      name: "notes.txt",
+    });
+
+    const attachments = await callTool("mcp_kanban_attachment_manager", {
+      action: "get_all",
+      cardId,
+    });
+    expect(attachments.map((a: any) => a.name).sort()).toEqual([
+      "notes.txt",
+      "report.bin",
+    ]);
+
+    const download = await callTool("mcp_kanban_attachment_manager", {
+      action: "download",
+      cardId,
+      id: uploaded.id,
+    });
+    expect(download.saved).toBe(true);
+    expect(download.path).toBe(
+      join(attachmentsDir, uploaded.id, "report.bin"),
+    );
+    expect(await readFile(download.path)).toEqual(bytes);
+
+    await callTool("mcp_kanban_attachment_manager", {
+      action: "delete",
+      id: note.id,
+    });
+    const remaining = await callTool("mcp_kanban_attachment_manager", {
+      action: "get_all",
+      cardId,
+    });
+    expect(remaining.map((a: any) => a.id)).toEqual([uploaded.id]);
+    delete process.env.PLANKA_ATTACHMENTS_DIR;
+  });
+
+  test("dry-run uploads list the form fields", async () => {
+    const result: any = await client.callTool({
+      name: "mcp_kanban_attachment_manager",
+      arguments: {
+        action: "upload",
+        cardId,
+        content: "aGVsbG8=",
+        encoding: "base64",
+        name: "hello.txt",
+        dryRun: true,
+      },
+    });
+    expect(JSON.parse(result.content[1].text).plannedRequests).toEqual([
+      {
+        method: "POST",
+        path: `/api/cards/${cardId}/attachments`,
+        body: {
+          type: "file",
+          name: "hello.txt",
+          file: { name: "hello.txt", type: "", size: 5 },
+        },
+      },
+    ]);
+  });
+
+  test("mcp_kanban_membership_manager", async () => {
+    const memberships = await callTool("mcp_kanban_membership_manager", {
+      action: "get_all",
+      boardId,
+    });
+    expect(Array.isArray(memberships)).toBe(true);
+  });
+
+  test("mcp_kanban_workflow", async () => {
+    const result = await callTool("mcp_kanban_workflow", {
+      action: "start_working",
+      cardId,
+      boardId,
+    });
+    expect(result.listId).toBe(listIds["In Progress"]);
+  });
+
+  test("mcp_kanban_undo", async () => {
+    const history = await callTool("mcp_kanban_undo", {
+      action: "get_history",
+    });
+    expect(history.length).toBeGreaterThan(0);
+
+    // The workflow move was the last change that can be undone
+    const result = await callTool("mcp_kanban_undo", { action: "undo" });
+    expect(result.failed).toEqual([]);
+    const card = await callTool("mcp_kanban_card_manager", {
+      action: "get_one",
+      id: cardId,
+    });
+    expect(card.listId).toBe(listIds.Backlog);
+  });
+
+  test("dry runs leave Planka unchanged", async () => {
+    const result: any = await client.callTool({
+      name: "mcp_kanban_card_manager",
+      arguments: { action: "delete", id: cardId, dryRun: true },
+    });
+    expect(JSON.parse(result.content[1].text).plannedRequests).toEqual([
+      { method: "DELETE", path: `/api/cards/${cardId}` },
+    ]);
+
+    const card = await callTool("mcp_kanban_card_manager", {
+      action: "get_one",
+      id: cardId,
+    });
+    expect(card.id).toBe(cardId);
+  });
+
+  test("mcp_kanban_audit_log", async () => {
+    await expect(
+      callTool("mcp_kanban_audit_log", { action: "get_recent", cardId }),
+    ).rejects.toThrow("The audit log is disabled: set PLANKA_AUDIT_LOG");
+
+    const auditDir = await mkdtemp(join(tmpdir(), "planka-audit-"));
+    const logPath = join(auditDir, "audit.jsonl");
+    process.env.PLANKA_AUDIT_LOG = logPath;
+    try {
+      const comment = await callTool("mcp_kanban_comment_manager", {
+        action: "create",
+        cardId,
+        text: "Audited comment",
+      });
+      await callTool("mcp_kanban_attachment_manager", {
+        action: "upload",
+        cardId,
+        content: "aGVsbG8=",
+        encoding: "base64",
+        name: "audited.txt",
+      });
+
+      // Newest first
+      const [uploadEntry, commentEntry] = await callTool(
+        "mcp_kanban_audit_log",
+        { action: "get_recent", cardId },
+      );
+      expect(commentEntry).toMatchObject({
+        tool: "mcp_kanban_comment_manager",
+        action: "create",
+        args: { action: "create", cardId, text: "Audited comment" },
+        method: "POST",
+        path: `/api/cards/${cardId}/comments`,
+        targets: { cardId, commentId: comment.id },
+        status: 200,
+      });
+      expect(commentEntry.error).toBeUndefined();
+      // Inline file contents stay out of the log
+      expect(uploadEntry).toMatchObject({
+        tool: "mcp_kanban_attachment_manager",
+        action: "upload",
+        args: { content: "[8 characters omitted]", name: "audited.txt" },
+        status: 200,
+      });
+
+      const lines = (await readFile(logPath, "utf8")).trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        commentEntry,
+        uploadEntry,
+      ]);
+    } finally {
+      delete process.env.PLANKA_AUDIT_LOG;
+      await rm(auditDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests of the streamable HTTP transport: bearer token and request parsing
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  getHttpTransportOptions,
+  startHttpTransport,
+} from "../common/transport.js";
+import { createServer } from "../server.js";
+
+const token = "transport-test-token";
+
+let httpServer: Server;
+let baseUrl: string;
+
+function postMcp(body: string, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}/mcp`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body,
+  });
+}
+
+describe("HTTP transport", () => {
+  beforeAll(async () => {
+    httpServer = await startHttpTransport(createServer, {
+      kind: "http",
+      port: 0,
+      host: "127.0.0.1",
+      token,
+    });
+    const { port } = httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  test("listens on 127.0.0.1 unless MCP_KANBAN_HOST is set", () => {
+    delete process.env.MCP_KANBAN_HOST;
+    expect(getHttpTransportOptions("http").host).toBe("127.0.0.1");
+  });
+
+  test("rejects requests without the bearer token", async () => {
+    const missing = await postMcp("{}");
+    expect(missing.status).toBe(401);
+    const wrong = await postMcp("{}", { Authorization: "Bearer nope" });
+    expect(wrong.status).toBe(401);
+
+    // The liveness probe stays open
+    const health = await fetch(`${baseUrl}/healthz`);
+    expect(health.status).toBe(200);
+  });
+
+  test("answers malformed JSON with a parse error", async () => {
+    const response = await postMcp("{not json", {
+      Authorization: `Bearer ${token}`,
+    });
+    expect(response.status).toBe(400);
+    const body: any = await response.json();
+    expect(body.error.code).toBe(-32700);
+  });
+
+  test("initializes a session with the token", async () => {
+    const response = await postMcp(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "transport-test", version: "1.0.0" },
+        },
+      }),
+      { Authorization: `Bearer ${token}` },
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("mcp-session-id")).toBeTruthy();
+    await response.text();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests of the undo history: one history per MCP session, and only changes
+ * that can be restored are recorded
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { withAuditContext } from "../common/audit.js";
+import { getUndoHistory, undoRecent } from "../common/undo.js";
+import { plankaRequest } from "../common/utils.js";
+import { createComment, updateComment } from "../operations/comments.js";
+import { updateList } from "../operations/lists.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let boardId: string;
+
+// Runs a function as a tool call of the given MCP session
+function inSession<R>(sessionId: string, fn: () => Promise<R>) {
+  return withAuditContext("undo-test", fn)({}, { sessionId });
+}
+
+async function createList(name: string) {
+  const list: any = await plankaRequest(`/api/boards/${boardId}/lists`, {
+    method: "POST",
+    body: { name, position: 1 },
+  });
+  return list.item.id as string;
+}
+
+describe("Undo history", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Undo project" },
+    });
+    const board: any = await plankaRequest(
+      `/api/projects/${project.item.id}/boards`,
+      { method: "POST", body: { name: "Undo board", position: 1 } },
+    );
+    boardId = board.item.id;
+  });
+
+  afterAll(async () => {
+    await planka.close();
+  });
+
+  test("keeps a history per session", async () => {
+    const listId = await createList("Original");
+    await inSession("a", () => updateList(listId, { name: "Renamed" }));
+
+    expect(await inSession("b", async () => getUndoHistory())).toEqual([]);
+    const other = await inSession("b", () => undoRecent());
+    expect(other.undone).toEqual([]);
+    expect(planka.store.lists.find((l) => l.id === listId)!.name).toBe(
+      "Renamed",
+    );
+
+    const history = await inSession("a", async () => getUndoHistory());
+    expect(history.map((entry) => entry.tool)).toEqual(["undo-test"]);
+    const own = await inSession("a", () => undoRecent());
+    expect(own.failed).toEqual([]);
+    expect(planka.store.lists.find((l) => l.id === listId)!.name).toBe(
+      "Original",
+    );
+  });
+
+  test("records comment edits only when the card is known", async () => {
+    const listId = await createList("Comments");
+    const card: any = await plankaRequest(`/api/lists/${listId}/cards`, {
+      method: "POST",
+      body: { name: "Commented card" },
+    });
+    const cardId = card.item.id;
+    const comment = await createComment({ cardId, text: "First" });
+
+    await inSession("c", () => updateComment(comment.id, { text: "Second" }));
+    expect(await inSession("c", async () => getUndoHistory())).toEqual([]);
+
+    await inSession(
+      "c",
+      () => updateComment(comment.id, { text: "Third" }, cardId),
+    );
+    const { undone, failed } = await inSession("c", () => undoRecent());
+    expect(undone).toHaveLength(1);
+    expect(failed).toEqual([]);
+    expect(planka.store.comments.find((c) => c.id === comment.id)!.text).toBe(
+      "Second",
+    );
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests of reading workflow definitions from PLANKA_WORKFLOW_CONFIG
+ *
+ * The config file is read once per process (once it is valid), so these tests
+ * live apart from the workflow action tests.
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getBoardWorkflow, getListState } from "../common/workflow.js";
+import { plankaRequest } from "../common/utils.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+let planka: FakePlanka;
+let configDir: string;
+let projectId: string;
+
+async function createBoard(name: string) {
+  const board: any = await plankaRequest(`/api/projects/${projectId}/boards`, {
+    method: "POST",
+    body: { name, position: 1 },
+  });
+  return board.item.id as string;
+}
+
+describe("PLANKA_WORKFLOW_CONFIG", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    configDir = await mkdtemp(join(tmpdir(), "planka-workflow-"));
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Workflow config project" },
+    });
+    projectId = project.item.id;
+  });
+
+  afterAll(async () => {
+    delete process.env.PLANKA_WORKFLOW_CONFIG;
+    await rm(configDir, { recursive: true, force: true });
+    await planka.close();
+  });
+
+  test("rejects entries that are not workflow definitions", async () => {
+    const boardId = await createBoard("Invalid");
+    const configPath = join(configDir, "invalid.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({ default: { testing: ["QA"] } }),
+    );
+    process.env.PLANKA_WORKFLOW_CONFIG = configPath;
+
+    await expect(getBoardWorkflow(boardId)).rejects.toThrow(
+      `Failed to load workflow config from ${configPath}`,
+    );
+  });
+
+  test("reads the board entry, then the default entry", async () => {
+    const definedBoardId = await createBoard("Defined");
+    const otherBoardId = await createBoard("Other");
+    const configPath = join(configDir, "workflow.json");
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        default: {
+          states: [
+            { id: "todo", lists: ["Ideas"] },
+            { id: "done", lists: ["Shipped"], terminal: true },
+          ],
+        },
+        boards: {
+          [definedBoardId]: {
+            states: [{ id: "open", lists: ["Open"] }],
+          },
+        },
+      }),
+    );
+    process.env.PLANKA_WORKFLOW_CONFIG = configPath;
+
+    const defined = await getBoardWorkflow(definedBoardId);
+    expect(defined.states.map((state) => state.id)).toEqual(["open"]);
+
+    const other = await getBoardWorkflow(otherBoardId);
+    expect(getListState(other, "Ideas")?.id).toBe("todo");
+    expect(getListState(other, "Shipped")?.terminal).toBe(true);
+    expect(getListState(other, "In Progress")).toBeUndefined();
+  });
+});
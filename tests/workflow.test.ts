@@ -0,0 +1,233 @@
+/**
+ * Tests of the workflow actions and the workflow definitions they follow
+ */
+import { afterAll, beforeAll, describe, expect, test } from "@jest/globals";
+import { clearSnapshotCache } from "../common/cache.js";
+import { plankaRequest } from "../common/utils.js";
+import { getBoardSummary } from "../tools/board-summary.js";
+import { searchCards } from "../tools/search-cards.js";
+import { performWorkflowAction } from "../tools/workflow-actions.js";
+import { FakePlanka, startFakePlanka } from "./fake-planka.js";
+
+const LIST_NAMES = ["Backlog", "To Do", "In Progress", "Testing", "Done"];
+
+let planka: FakePlanka;
+let projectId: string;
+
+// Creates a board with the default workflow lists, returning the list IDs
+async function createBoard(name: string) {
+  const board: any = await plankaRequest(`/api/projects/${projectId}/boards`, {
+    method: "POST",
+    body: { name, position: 1 },
+  });
+  const lists: Record<string, string> = {};
+  for (const [index, listName] of LIST_NAMES.entries()) {
+    const list: any = await plankaRequest(
+      `/api/boards/${board.item.id}/lists`,
+      { method: "POST", body: { name: listName, position: index + 1 } },
+    );
+    lists[listName] = list.item.id;
+  }
+  return { boardId: board.item.id as string, lists };
+}
+
+async function createCard(listId: string) {
+  const card: any = await plankaRequest(`/api/lists/${listId}/cards`, {
+    method: "POST",
+    body: { name: "Workflow card" },
+  });
+  return card.item.id as string;
+}
+
+// Creates a task list with the given tasks and completion states
+async function createTaskList(cardId: string, tasks: Record<string, boolean>) {
+  const taskList: any = await plankaRequest(
+    `/api/cards/${cardId}/task-lists`,
+    { method: "POST", body: { name: "Checklist", position: 1 } },
+  );
+  const taskIds: string[] = [];
+  for (const [name, isCompleted] of Object.entries(tasks)) {
+    const task: any = await plankaRequest(
+      `/api/task-lists/${taskList.item.id}/tasks`,
+      { method: "POST", body: { name, isCompleted } },
+    );
+    taskIds.push(task.item.id);
+  }
+  return { taskListId: taskList.item.id as string, taskIds };
+}
+
+function storedCard(cardId: string) {
+  return planka.store.cards.find((card) => card.id === cardId)!;
+}
+
+function isStoredTaskCompleted(taskId: string) {
+  return planka.store.tasks.find((task) => task.id === taskId)!.isCompleted;
+}
+
+function ids(records: { id: string }[]) {
+  return records.map((record) => record.id).sort();
+}
+
+describe("Workflow actions", () => {
+  beforeAll(async () => {
+    planka = await startFakePlanka();
+    process.env.PLANKA_BASE_URL = planka.url;
+    const project: any = await plankaRequest("/api/projects", {
+      method: "POST",
+      body: { name: "Workflow project" },
+    });
+    projectId = project.item.id;
+  });
+
+  afterAll(async () => {
+    await planka.close();
+  });
+
+  test("moves a card onto another board", async () => {
+    const source = await createBoard("Source");
+    const target = await createBoard("Target");
+    const cardId = await createCard(source.lists.Backlog);
+
+    const result = await performWorkflowAction({
+      action: "start_working",
+      cardId,
+      boardId: target.boardId,
+    });
+
+    expect(result.listId).toBe(target.lists["In Progress"]);
+    expect(storedCard(cardId).boardId).toBe(target.boardId);
+  });
+
+  test("allows every move without a configured workflow", async () => {
+    const { lists } = await createBoard("Unconfigured");
+    const fromBacklog = await createCard(lists.Backlog);
+    await performWorkflowAction({ action: "move_to_done", cardId: fromBacklog });
+    expect(storedCard(fromBacklog).listId).toBe(lists.Done);
+
+    const cardId = await createCard(lists.Backlog);
+    await performWorkflowAction({ action: "move_to_testing", cardId });
+    expect(storedCard(cardId).listId).toBe(lists.Testing);
+    await performWorkflowAction({ action: "start_working", cardId });
+    await performWorkflowAction({ action: "move_to_done", cardId });
+    expect(storedCard(cardId).listId).toBe(lists.Done);
+
+    // Done cards can be reopened
+    await performWorkflowAction({ action: "start_working", cardId });
+    expect(storedCard(cardId).listId).toBe(lists["In Progress"]);
+  });
+
+  test("enforces the transitions of a [workflow] card", async () => {
+    const { boardId, lists } = await createBoard("Configured");
+    await plankaRequest(`/api/lists/${lists.Backlog}/cards`, {
+      method: "POST",
+      body: {
+        name: "[workflow]",
+        description: JSON.stringify({
+          states: [
+            { id: "inProgress", lists: ["In Progress"] },
+            { id: "testing", lists: ["Testing"] },
+            { id: "done", lists: ["Done"], terminal: true },
+          ],
+          transitions: { inProgress: ["testing"], done: [] },
+        }),
+      },
+    });
+    const cardId = await createCard(lists["In Progress"]);
+
+    await expect(
+      performWorkflowAction({ action: "move_to_done", cardId }),
+    ).rejects.toThrow('from "inProgress" to "done"');
+    await performWorkflowAction({ action: "move_to_testing", cardId });
+    await performWorkflowAction({ action: "move_to_done", cardId });
+    await expect(
+      performWorkflowAction({ action: "start_working", cardId }),
+    ).rejects.toThrow('from "done" to "inProgress"');
+
+    // The marker card is configuration, not a card to work on
+    const summary = await getBoardSummary({
+      boardId,
+      includeTaskDetails: false,
+      includeComments: false,
+    });
+    expect(summary.stats.totalCards).toBe(1);
+    expect(
+      summary.lists.flatMap((list: any) => list.cards).map((card: any) =>
+        card.id
+      ),
+    ).toEqual([cardId]);
+    // The board was created without the operations, so the cached projects
+    // do not know it yet
+    clearSnapshotCache();
+    const found = await searchCards({
+      boardId,
+      query: "workflow",
+      includeComments: false,
+    });
+    expect(found.results.map((result) => result.card.id)).toEqual([cardId]);
+  });
+
+  test("mark_completed completes tasks by ID and whole task lists", async () => {
+    const { lists } = await createBoard("Tasks");
+    const cardId = await createCard(lists["In Progress"]);
+    const first = await createTaskList(cardId, { Design: false, Review: true });
+    const second = await createTaskList(cardId, { Build: false, Ship: false });
+
+    const byTask: any = await performWorkflowAction({
+      action: "mark_completed",
+      cardId,
+      taskIds: first.taskIds,
+    });
+    // Design is completed now, Review already was
+    expect(byTask.tasksCompleted).toBe(1);
+    expect(ids(byTask.completed)).toEqual([first.taskIds[0]]);
+    expect(ids(byTask.alreadyCompleted)).toEqual([first.taskIds[1]]);
+    expect(isStoredTaskCompleted(first.taskIds[0])).toBe(true);
+    expect(isStoredTaskCompleted(second.taskIds[0])).toBe(false);
+
+    const byTaskList: any = await performWorkflowAction({
+      action: "mark_completed",
+      cardId,
+      taskListIds: [first.taskListId, second.taskListId],
+    });
+    expect(byTaskList.tasksCompleted).toBe(2);
+    expect(ids(byTaskList.completed)).toEqual([...second.taskIds].sort());
+    expect(ids(byTaskList.alreadyCompleted)).toEqual(
+      [...first.taskIds].sort(),
+    );
+    for (const taskId of second.taskIds) {
+      expect(isStoredTaskCompleted(taskId)).toBe(true);
+    }
+  });
+
+  test("mark_completed rejects tasks and task lists of another card", async () => {
+    const { lists } = await createBoard("Foreign tasks");
+    const cardId = await createCard(lists["In Progress"]);
+    const otherCardId = await createCard(lists["In Progress"]);
+    const own = await createTaskList(cardId, { Own: false });
+    const other = await createTaskList(otherCardId, { Foreign: false });
+
+    await expect(
+      performWorkflowAction({
+        action: "mark_completed",
+        cardId,
+        taskIds: [own.taskIds[0], other.taskIds[0]],
+      }),
+    ).rejects.toThrow(
+      `Task ${other.taskIds[0]} does not belong to card ${cardId}`,
+    );
+    await expect(
+      performWorkflowAction({
+        action: "mark_completed",
+        cardId,
+        taskIds: own.taskIds,
+        taskListIds: [other.taskListId],
+      }),
+    ).rejects.toThrow(
+      `Task list ${other.taskListId} does not belong to card ${cardId}`,
+    );
+
+    // Nothing was completed on either card
+    expect(isStoredTaskCompleted(own.taskIds[0])).toBe(false);
+    expect(isStoredTaskCompleted(other.taskIds[0])).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import {
+    AuditEntry,
+    getAuditLogPath,
+    readAuditLog,
+} from "../common/audit.js";
+import { getBoardSnapshot } from "../common/cache.js";
+
+/**
+ * Zod schema for the getAuditLog function parameters
+ * @property {string} [cardId] - Only return changes to this card
+ * @property {string} [boardId] - Only return changes on this board
+ * @property {number} [limit] - The maximum number of entries to return
+ */
+export const getAuditLogSchema = z.object({
+    cardId: z.string().optional().describe(
+        "Only return changes to this card",
+    ),
+    boardId: z.string().optional().describe(
+        "Only return changes on this board",
+    ),
+    limit: z.number().optional().describe(
+        "The maximum number of entries to return (default: 20)",
+    ),
+});
+
+/**
+ * Type definition for getAuditLog parameters
+ */
+export type GetAuditLogParams = z.infer<typeof getAuditLogSchema>;
+
+/**
+ * Retrieves the most recent entries of the audit log, newest first
+ *
+ * Entries match a board if they name the board or one of its current lists
+ * or cards, so changes to a card that has since been deleted are only found
+ * by its ID.
+ *
+ * @param {GetAuditLogParams} params - Parameters for querying the audit log
+ * @param {string} [params.cardId] - Only return changes to this card
+ * @param {string} [params.boardId] - Only return changes on this board
+ * @param {number} [params.limit] - The maximum number of entries to return (default: 20)
+ * @returns {Promise<AuditEntry[]>} The matching entries
+ * @throws {Error} If PLANKA_AUDIT_LOG is not set
+ */
+export async function getAuditLog(
+    params: GetAuditLogParams,
+): Promise<AuditEntry[]> {
+    // An empty result would read as "nothing changed"
+    if (!getAuditLogPath()) {
+        throw new Error(
+            "The audit log is disabled: set PLANKA_AUDIT_LOG to the file changes should be logged to",
+        );
+    }
+
+    const { cardId, boardId, limit = 20 } = params;
+    let matches = (entry: AuditEntry) =>
+        !cardId || entry.targets.cardId === cardId;
+
+    if (boardId) {
+        const snapshot = await getBoardSnapshot(boardId);
+        const listIds = new Set(
+            (snapshot.included?.lists ?? []).map((list: any) => list.id),
+        );
+        const cardIds = new Set(
+            (snapshot.included?.cards ?? []).map((card: any) => card.id),
+        );
+        const matchesCard = matches;
+        matches = (entry) =>
+            matchesCard(entry) &&
+            (entry.targets.boardId === boardId ||
+                listIds.has(entry.targets.listId) ||
+                cardIds.has(entry.targets.cardId));
+    }
+
+    const entries = await readAuditLog();
+    return entries.filter(matches).reverse().slice(0, Math.max(0, limit));
+}
@@ -3,9 +3,16 @@ import { z } from "zod";
 import { getBoard } from "../operations/boards.js";
 import { getLists } from "../operations/lists.js";
 import { getCards } from "../operations/cards.js";
-import { getTasks } from "../operations/tasks.js";
+import { getTaskLists } from "../operations/tasks.js";
 import { getLabels } from "../operations/labels.js";
 import { getComments } from "../operations/comments.js";
+import {
+    getActionState,
+    getBoardWorkflow,
+    getListState,
+    isWorkflowMarkerCard,
+    WorkflowDefinition,
+} from "../common/workflow.js";
 
 /**
  * Zod schema for the getBoardSummary function parameters
@@ -59,15 +66,21 @@ export async function getBoardSummary(params: GetBoardSummaryParams) {
         // Get all cards for each list
         const listsWithCards = await Promise.all(
             allLists.map(async (list: any) => {
-                const listCards = await getCards(list.id);
+                // The workflow marker card is configuration, not work
+                const listCards = (await getCards(list.id)).filter((card) =>
+                    !isWorkflowMarkerCard(card)
+                );
 
                 // Get tasks for each card if requested
                 const cardsWithDetails = await Promise.all(
                     listCards.map(async (card: any) => {
                         let taskDetails: any[] = [];
                         if (includeTaskDetails) {
-                            taskDetails = await getTasks(card.id);
+                            taskDetails = await getTaskLists(card.id);
                         }
+                        const cardTasks = taskDetails.flatMap((taskList) =>
+                            taskList.tasks
+                        );
 
                         // Get comments if requested
                         let cardComments: any[] = [];
@@ -76,10 +89,10 @@ export async function getBoardSummary(params: GetBoardSummaryParams) {
                         }
 
                         // Calculate task completion percentage
-                        const completedTasks = taskDetails.filter((task: any) =>
+                        const completedTasks = cardTasks.filter((task: any) =>
                             task.isCompleted
                         ).length;
-                        const totalTasks = taskDetails.length;
+                        const totalTasks = cardTasks.length;
                         const completionPercentage = totalTasks > 0
                             ? Math.round((completedTasks / totalTasks) * 100)
                             : 0;
@@ -118,19 +131,26 @@ export async function getBoardSummary(params: GetBoardSummaryParams) {
             0,
         );
 
-        // Find specific lists by name
-        const backlogList = listsWithCards.find((list: any) =>
-            list.name.toLowerCase() === "backlog"
-        );
-        const inProgressList = listsWithCards.find((list: any) =>
-            list.name.toLowerCase() === "in progress"
-        );
-        const testingList = listsWithCards.find((list: any) =>
-            list.name.toLowerCase() === "testing"
-        );
-        const doneList = listsWithCards.find((list: any) =>
-            list.name.toLowerCase() === "done"
+        // Group the lists by the workflow state they represent
+        const workflow = await getBoardWorkflow(boardId);
+        const stateCounts: Record<string, number> = Object.fromEntries(
+            workflow.states.map((state) => [state.id, 0]),
         );
+        for (const list of listsWithCards) {
+            const state = getListState(workflow, list.name);
+            if (state) {
+                stateCounts[state.id] += list.cardCount;
+            }
+        }
+
+        const backlogCount = stateCounts[workflow.states[0].id];
+        const inProgressCount =
+            stateCounts[getActionState(workflow, "start_working")] ?? 0;
+        const testingCount =
+            stateCounts[getActionState(workflow, "move_to_testing")] ?? 0;
+        const doneCount = workflow.states
+            .filter((state) => state.terminal)
+            .reduce((sum, state) => sum + stateCounts[state.id], 0);
 
         // Count cards with specific labels
         const urgentCards = listsWithCards.flatMap((list: any) => list.cards)
@@ -157,26 +177,27 @@ export async function getBoardSummary(params: GetBoardSummaryParams) {
             board,
             lists: listsWithCards,
             labels: boardLabels,
+            workflow,
             stats: {
                 totalCards,
-                backlogCount: backlogList?.cardCount || 0,
-                inProgressCount: inProgressList?.cardCount || 0,
-                testingCount: testingList?.cardCount || 0,
-                doneCount: doneList?.cardCount || 0,
+                stateCounts,
+                backlogCount,
+                inProgressCount,
+                testingCount,
+                doneCount,
                 urgentCount: urgentCards,
                 bugCount: bugCards,
                 completionPercentage: totalCards > 0
-                    ? Math.round((doneList?.cardCount || 0) / totalCards * 100)
+                    ? Math.round(doneCount / totalCards * 100)
                     : 0,
             },
             workflowState: {
-                hasCardsInBacklog: (backlogList?.cardCount || 0) > 0,
-                hasCardsInProgress: (inProgressList?.cardCount || 0) > 0,
-                hasCardsInTesting: (testingList?.cardCount || 0) > 0,
+                hasCardsInBacklog: backlogCount > 0,
+                hasCardsInProgress: inProgressCount > 0,
+                hasCardsInTesting: testingCount > 0,
                 nextActionSuggestion: getNextActionSuggestion(
-                    backlogList?.cardCount || 0,
-                    inProgressList?.cardCount || 0,
-                    testingList?.cardCount || 0,
+                    workflow,
+                    stateCounts,
                 ),
             },
         };
@@ -189,22 +210,39 @@ export async function getBoardSummary(params: GetBoardSummaryParams) {
 /**
  * Helper function to suggest the next action based on board state
  *
- * @param {number} backlogCount - Number of cards in the Backlog list
- * @param {number} inProgressCount - Number of cards in the In Progress list
- * @param {number} testingCount - Number of cards in the Testing list
+ * Work closest to completion comes first: cards waiting for review, then
+ * cards in progress, then cards waiting to be started.
+ *
+ * @param {WorkflowDefinition} workflow - The board's workflow definition
+ * @param {Record<string, number>} stateCounts - Number of cards per workflow state
  * @returns {string} A suggestion for the next action to take
  */
 function getNextActionSuggestion(
-    backlogCount: number,
-    inProgressCount: number,
-    testingCount: number,
+    workflow: WorkflowDefinition,
+    stateCounts: Record<string, number>,
 ): string {
-    if (testingCount > 0) {
-        return "Review cards in Testing that need feedback";
-    } else if (inProgressCount > 0) {
-        return "Continue working on cards in In Progress";
-    } else if (backlogCount > 0) {
-        return "Start working on a card from Backlog";
+    const stateName = (stateId: string) =>
+        workflow.states.find((state) => state.id === stateId)?.lists[0] ??
+            stateId;
+    const testingStateId = getActionState(workflow, "move_to_testing");
+    const inProgressStateId = getActionState(workflow, "start_working");
+    const inProgressIndex = workflow.states.findIndex((state) =>
+        state.id === inProgressStateId
+    );
+    const waitingState = workflow.states.find((state, index) =>
+        !state.terminal &&
+        (inProgressIndex === -1 || index < inProgressIndex) &&
+        stateCounts[state.id] > 0
+    );
+
+    if (stateCounts[testingStateId] > 0) {
+        return `Review cards in ${
+            stateName(testingStateId)
+        } that need feedback`;
+    } else if (stateCounts[inProgressStateId] > 0) {
+        return `Continue working on cards in ${stateName(inProgressStateId)}`;
+    } else if (waitingState) {
+        return `Start working on a card from ${stateName(waitingState.id)}`;
     } else {
         return "All tasks complete! Create new cards or projects";
     }
@@ -1,11 +1,10 @@
 import { z } from "zod";
-import { getCard } from "../operations/cards.js";
-import { getTasks } from "../operations/tasks.js";
 import { getComments } from "../operations/comments.js";
 import { getLabels } from "../operations/labels.js";
-import { getProjects } from "../operations/projects.js";
-import { getBoards } from "../operations/boards.js";
-import { getLists } from "../operations/lists.js";
+import { describeCardMembers } from "../operations/cardMemberships.js";
+import { nestTaskLists } from "../operations/tasks.js";
+import { getBoardSnapshot } from "../common/cache.js";
+import { resolveCardContext } from "../common/resolver.js";
 
 /**
  * Zod schema for the getCardDetails function parameters
@@ -24,77 +23,50 @@ export type GetCardDetailsParams = z.infer<typeof getCardDetailsSchema>;
  * Retrieves comprehensive details about a card including tasks, comments, labels, and analysis
  *
  * This function aggregates data from multiple sources to provide a complete view of a card,
- * including its tasks, comments, and labels. It also calculates task completion percentage
- * and performs analysis on the card's status.
+ * including its tasks, comments, and the labels and members attached to it. It also
+ * calculates task completion percentage and performs analysis on the card's status.
  *
  * @param {GetCardDetailsParams} params - Parameters for retrieving card details
  * @param {string} params.cardId - The ID of the card to get details for
- * @returns {Promise<object>} Comprehensive card details including tasks, comments, labels, and analysis
- * @throws {Error} If the card is not found or if the board ID cannot be determined
+ * @returns {Promise<object>} Comprehensive card details including its list, board, project, tasks, comments, attached labels, assigned members (card memberships with their `user`), and analysis
+ * @throws {Error} If the card is not found
  */
 export async function getCardDetails(params: GetCardDetailsParams) {
     const { cardId } = params;
 
     try {
-        // Get the card details
-        const card = await getCard(cardId);
+        // Resolve the card with its list, board and project in one step
+        const context = await resolveCardContext(cardId);
+        const { card, list, board, project } = context;
+        const boardId = board.id;
 
-        if (!card) {
-            throw new Error(`Card with ID ${cardId} not found`);
-        }
-
-        // Get tasks for the card
-        const tasks = await getTasks(card.id);
+        // Task lists and their tasks are part of the card's included data
+        const taskLists = nestTaskLists(card.id, context.included);
+        const tasks = taskLists.flatMap((taskList) => taskList.tasks);
 
         // Get comments for the card
         const comments = await getComments(card.id);
 
-        // Find the board ID by searching through all projects and boards
-        let boardId = null;
-
-        // Get all projects
-        const projectsResponse = await getProjects(1, 100);
-        const projects = projectsResponse.items;
-
-        // For each project, get its boards
-        for (const project of projects) {
-            if (boardId) break; // Stop if we already found the board ID
-
-            const boards = await getBoards(project.id);
-
-            // For each board, get its lists
-            for (const board of boards) {
-                if (boardId) break; // Stop if we already found the board ID
-
-                const lists = await getLists(board.id);
-
-                // Check if the card's list ID is in this board
-                const matchingList = lists.find((list: any) =>
-                    list.id === card.listId
-                );
-
-                if (matchingList) {
-                    boardId = board.id;
-                    break;
-                }
-            }
-        }
-
-        if (!boardId) {
-            throw new Error(`Could not determine board ID for card ${cardId}`);
-        }
-
-        const labels = await getLabels(boardId);
+        // Resolve the labels attached to this card (cardLabels only carry IDs)
+        const labelIds = (context.included.cardLabels ?? [])
+            .filter((cardLabel: any) => cardLabel.cardId === card.id)
+            .map((cardLabel: any) => cardLabel.labelId);
+        const boardLabels = await getLabels(boardId);
+        const labels = boardLabels.filter((label: any) =>
+            labelIds.includes(label.id)
+        );
 
-        // Filter to just the labels assigned to this card
-        // Note: We need to get the labelIds from the card's data
-        // This might require additional API calls or data structure knowledge
-        // For now, we'll return all labels for the board
+        // Resolve the users assigned to this card from the board's users,
+        // in the shape of mcp_kanban_card_manager's get_members
+        const boardSnapshot = await getBoardSnapshot(boardId);
+        const members = describeCardMembers(
+            card.id,
+            context.included.cardMemberships ?? [],
+            boardSnapshot.included?.users ?? [],
+        );
 
         // Calculate task completion percentage
-        const completedTasks = tasks.filter((task: any) =>
-            task.isCompleted
-        ).length;
+        const completedTasks = tasks.filter((task) => task.isCompleted).length;
         const totalTasks = tasks.length;
         const completionPercentage = totalTasks > 0
             ? Math.round((completedTasks / totalTasks) * 100)
@@ -114,7 +86,10 @@ export async function getCardDetails(params: GetCardDetailsParams) {
 
         return {
             card,
-            taskItems: tasks,
+            list,
+            board,
+            project,
+            taskItems: taskLists,
             taskStats: {
                 total: totalTasks,
                 completed: completedTasks,
@@ -122,6 +97,7 @@ export async function getCardDetails(params: GetCardDetailsParams) {
             },
             comments: sortedComments,
             labels,
+            members,
             analysis: {
                 hasRecentHumanFeedback,
                 isComplete: completionPercentage === 100,
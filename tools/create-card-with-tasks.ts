@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { createCard } from "../operations/cards.js";
-import { createTask } from "../operations/tasks.js";
+import { createTaskList } from "../operations/tasks.js";
 import { createComment } from "../operations/comments.js";
 
 /**
@@ -29,9 +29,10 @@ export const createCardWithTasksSchema = z.object({
 });
 
 /**
- * Type definition for createCardWithTasks parameters
+ * Type definition for createCardWithTasks parameters; `type` may be left out
+ * and defaults to project
  */
-export type CreateCardWithTasksParams = z.infer<
+export type CreateCardWithTasksParams = z.input<
     typeof createCardWithTasksSchema
 >;
 
@@ -73,7 +74,7 @@ export async function createCardWithTasks(params: CreateCardWithTasksParams) {
                 // Calculate position for each task (65535, 131070, 196605, etc.)
                 const taskPosition = 65535 * (i + 1);
 
-                const task = await createTask({
+                const task = await createTaskList({
                     cardId: card.id,
                     name: taskName,
                     position: taskPosition,
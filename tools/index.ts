@@ -8,7 +8,9 @@
  */
 
 // Export all tools
+export * from "./audit-log.js";
 export * from "./board-summary.js";
 export * from "./card-details.js";
 export * from "./create-card-with-tasks.js";
+export * from "./search-cards.js";
 export * from "./workflow-actions.js";
@@ -0,0 +1,375 @@
+import { z } from "zod";
+import { getBoardSnapshot, getProjectsSnapshot } from "../common/cache.js";
+import { plankaRequest } from "../common/utils.js";
+import { isWorkflowMarkerCard } from "../common/workflow.js";
+
+/**
+ * Zod schema for the searchCards function parameters
+ * @property {string} [query] - Words to find in card names, descriptions and optionally comments
+ * @property {string} [boardId] - Only search this board
+ * @property {string} [projectId] - Only search the boards of this project
+ * @property {boolean} [includeComments=false] - Whether to search comments too
+ * @property {string[]} [labels] - Only return cards with all of these labels (names)
+ * @property {string[]} [members] - Only return cards assigned to all of these users
+ * @property {boolean} [isCompleted] - Only return completed or open cards
+ * @property {string} [dueAfter] - Only return cards due on or after this date
+ * @property {string} [dueBefore] - Only return cards due on or before this date (a date without a time means the end of that day)
+ * @property {string} [listId] - Only return cards in this list
+ * @property {string} [listName] - Only return cards in lists with this name
+ * @property {number} [limit=20] - The maximum number of results
+ */
+export const searchCardsSchema = z.object({
+    query: z.string().optional().describe(
+        "Words to find in card names, descriptions and (with includeComments) comments; every word must match",
+    ),
+    boardId: z.string().optional().describe("Only search this board"),
+    projectId: z.string().optional().describe(
+        "Only search the boards of this project",
+    ),
+    includeComments: z.boolean().optional().default(false).describe(
+        "Whether to search card comments too (one extra request per card)",
+    ),
+    labels: z.array(z.string()).optional().describe(
+        "Only return cards with all of these labels (label names)",
+    ),
+    members: z.array(z.string()).optional().describe(
+        "Only return cards assigned to all of these users (ID, username, email or name)",
+    ),
+    isCompleted: z.boolean().optional().describe(
+        "Only return completed (true) or open (false) cards",
+    ),
+    dueAfter: z.string().optional().describe(
+        "Only return cards due on or after this date (ISO format)",
+    ),
+    dueBefore: z.string().optional().describe(
+        "Only return cards due on or before this date (ISO format; a date without a time includes that whole day)",
+    ),
+    listId: z.string().optional().describe("Only return cards in this list"),
+    listName: z.string().optional().describe(
+        "Only return cards in lists with this name, e.g. In Progress",
+    ),
+    limit: z.number().optional().describe(
+        "The maximum number of results (default: 20)",
+    ),
+});
+
+/**
+ * Type definition for searchCards parameters
+ */
+export type SearchCardsParams = z.infer<typeof searchCardsSchema>;
+
+// Points for each query word found in a field
+const FIELD_SCORES = { name: 3, description: 1, comments: 1 };
+
+type MatchField = keyof typeof FIELD_SCORES;
+
+// Number of cards whose comments are fetched at the same time
+const COMMENT_CONCURRENCY = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalize(value: unknown): string {
+    return typeof value === "string" ? value.trim().toLowerCase() : "";
+}
+
+function parseDate(
+    value: string | undefined,
+    name: string,
+    { endOfDay = false } = {},
+): number | null {
+    if (value === undefined) {
+        return null;
+    }
+    const time = new Date(value).getTime();
+    if (Number.isNaN(time)) {
+        throw new Error(`${name} is not a valid date: ${value}`);
+    }
+    // A date without a time is parsed as the start of that day (UTC)
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+    return endOfDay && dateOnly ? time + DAY_MS - 1 : time;
+}
+
+/**
+ * Fetches the comments of the cards, a few cards at a time
+ *
+ * Unlike getComments, which reads a failed request as no comments, this
+ * reports the cards whose comments could not be read.
+ *
+ * @param {string[]} cardIds - The IDs of the cards
+ * @returns {Promise<{texts: Map<string, string>, failed: string[]}>} The normalized comment texts by card ID, and the cards whose comments could not be read
+ */
+async function getCommentTexts(cardIds: string[]) {
+    const texts = new Map<string, string>();
+    const failed: string[] = [];
+    for (let i = 0; i < cardIds.length; i += COMMENT_CONCURRENCY) {
+        const batch = cardIds.slice(i, i + COMMENT_CONCURRENCY);
+        const settled = await Promise.allSettled(
+            batch.map((cardId) =>
+                plankaRequest(`/api/cards/${cardId}/comments`)
+            ),
+        );
+        settled.forEach((result, index) => {
+            if (result.status === "rejected") {
+                failed.push(batch[index]);
+                return;
+            }
+            texts.set(
+                batch[index],
+                ((result.value as any)?.items ?? []).map((comment: any) =>
+                    normalize(comment.data?.text ?? comment.text)
+                ).join("\n"),
+            );
+        });
+    }
+    return { texts, failed };
+}
+
+async function getSearchedBoards(boardId?: string, projectId?: string) {
+    const projectsSnapshot = await getProjectsSnapshot();
+    const projects = projectsSnapshot.items ?? [];
+    const boards = (projectsSnapshot.included?.boards ?? []).filter(
+        (board: any) =>
+            (!boardId || board.id === boardId) &&
+            (!projectId || board.projectId === projectId),
+    );
+
+    if (boardId && boards.length === 0) {
+        throw new Error(`Board with ID ${boardId} not found`);
+    }
+    if (
+        projectId && !projects.some((project: any) => project.id === projectId)
+    ) {
+        throw new Error(`Project with ID ${projectId} not found`);
+    }
+    return boards.map((board: any) => ({
+        board,
+        project: projects.find((project: any) =>
+            project.id === board.projectId
+        ),
+    }));
+}
+
+/**
+ * Searches cards by text, labels, assigned users, completion, due date and
+ * list across a board, a project or every board the agent can see
+ *
+ * Results are ranked by how well they match the query: a query word in the
+ * name counts more than one in the description or comments, and names that
+ * contain the whole query rank first. Without a query, or between equally
+ * ranked cards, cards due sooner come first, then the most recently updated.
+ *
+ * @param {SearchCardsParams} params - Parameters for searching cards
+ * @param {string} [params.query] - Words that must all appear in the name, description or comments
+ * @param {string} [params.boardId] - Only search this board
+ * @param {string} [params.projectId] - Only search the boards of this project
+ * @param {boolean} [params.includeComments=false] - Whether to search comments too
+ * @param {string[]} [params.labels] - Only return cards with all of these labels
+ * @param {string[]} [params.members] - Only return cards assigned to all of these users
+ * @param {boolean} [params.isCompleted] - Only return completed or open cards
+ * @param {string} [params.dueAfter] - Only return cards due on or after this date
+ * @param {string} [params.dueBefore] - Only return cards due on or before this date; a date without a time means the end of that day
+ * @param {string} [params.listId] - Only return cards in this list
+ * @param {string} [params.listName] - Only return cards in lists with this name
+ * @param {number} [params.limit=20] - The maximum number of results
+ * @returns {Promise<{total: number, results: object[], unreadableBoards?: string[], unreadableComments?: string[]}>} The number of matching cards and the best ranked ones, each with its score, the fields that matched, its labels, members, list, board and project, plus the boards and the card comments that could not be read
+ * @throws {Error} If a date is invalid or the board or project is not found
+ */
+export async function searchCards(params: SearchCardsParams) {
+    const {
+        query,
+        boardId,
+        projectId,
+        includeComments = false,
+        labels,
+        members,
+        isCompleted,
+        dueAfter,
+        dueBefore,
+        listId,
+        listName,
+        limit = 20,
+    } = params;
+
+    try {
+        const words = normalize(query).split(/\s+/).filter(Boolean);
+        const phrase = words.join(" ");
+        const labelNames = (labels ?? []).map(normalize);
+        const memberNames = (members ?? []).map(normalize);
+        const dueFrom = parseDate(dueAfter, "dueAfter");
+        const dueTo = parseDate(dueBefore, "dueBefore", { endOfDay: true });
+
+        const searchedBoards = await getSearchedBoards(boardId, projectId);
+        // A board the agent cannot open is skipped rather than failing the
+        // whole search, unless it is the only board searched
+        const snapshots = await Promise.allSettled(
+            searchedBoards.map(({ board }) => getBoardSnapshot(board.id)),
+        );
+        const unreadableBoards: string[] = [];
+
+        const candidates: any[] = [];
+        snapshots.forEach((settled, index) => {
+            const { board, project } = searchedBoards[index];
+            if (settled.status === "rejected") {
+                if (boardId) {
+                    throw settled.reason;
+                }
+                unreadableBoards.push(board.id);
+                return;
+            }
+            const included = settled.value.included ?? {};
+
+            for (const card of included.cards ?? []) {
+                const list = (included.lists ?? []).find((l: any) =>
+                    l.id === card.listId
+                );
+                if (list?.type === "trash" || isWorkflowMarkerCard(card)) {
+                    continue;
+                }
+                if (listId && card.listId !== listId) {
+                    continue;
+                }
+                if (listName && normalize(list?.name) !== normalize(listName)) {
+                    continue;
+                }
+                if (
+                    isCompleted !== undefined &&
+                    !!card.isCompleted !== isCompleted
+                ) {
+                    continue;
+                }
+                if (dueFrom !== null || dueTo !== null) {
+                    const due = card.dueDate
+                        ? new Date(card.dueDate).getTime()
+                        : NaN;
+                    if (
+                        Number.isNaN(due) ||
+                        (dueFrom !== null && due < dueFrom) ||
+                        (dueTo !== null && due > dueTo)
+                    ) {
+                        continue;
+                    }
+                }
+
+                const cardLabels = (included.cardLabels ?? [])
+                    .filter((cardLabel: any) => cardLabel.cardId === card.id)
+                    .map((cardLabel: any) =>
+                        (included.labels ?? []).find((label: any) =>
+                            label.id === cardLabel.labelId
+                        )
+                    )
+                    .filter(Boolean);
+                if (
+                    !labelNames.every((name) =>
+                        cardLabels.some((label: any) =>
+                            normalize(label.name) === name
+                        )
+                    )
+                ) {
+                    continue;
+                }
+
+                const cardMembers = (included.cardMemberships ?? [])
+                    .filter((membership: any) => membership.cardId === card.id)
+                    .map((membership: any) =>
+                        (included.users ?? []).find((user: any) =>
+                            user.id === membership.userId
+                        ) ?? { id: membership.userId }
+                    );
+                if (
+                    !memberNames.every((name) =>
+                        cardMembers.some((user: any) =>
+                            [user.id, user.username, user.email, user.name]
+                                .map(normalize)
+                                .includes(name)
+                        )
+                    )
+                ) {
+                    continue;
+                }
+
+                candidates.push({
+                    card,
+                    labels: cardLabels.map((label: any) => ({
+                        id: label.id,
+                        name: label.name,
+                        color: label.color,
+                    })),
+                    members: cardMembers.map((user: any) => ({
+                        id: user.id,
+                        name: user.name,
+                        username: user.username,
+                    })),
+                    list: list ? { id: list.id, name: list.name } : null,
+                    board: { id: board.id, name: board.name },
+                    project: project
+                        ? { id: project.id, name: project.name }
+                        : null,
+                });
+            }
+        });
+
+        // Only the cards that passed the filters need their comments. A card
+        // whose comments cannot be read is matched on its name and
+        // description only
+        const { texts: commentTexts, failed: unreadableComments } =
+            includeComments && words.length > 0
+                ? await getCommentTexts(candidates.map(({ card }) => card.id))
+                : { texts: new Map<string, string>(), failed: [] };
+
+        const results = candidates
+            .map((candidate) => {
+                const fields: Record<MatchField, string> = {
+                    name: normalize(candidate.card.name),
+                    description: normalize(candidate.card.description),
+                    comments: commentTexts.get(candidate.card.id) ?? "",
+                };
+                let score = 0;
+                const matchedIn = new Set<MatchField>();
+                for (const word of words) {
+                    const found = (Object.keys(fields) as MatchField[])
+                        .filter((field) => fields[field].includes(word));
+                    if (found.length === 0) {
+                        return null;
+                    }
+                    for (const field of found) {
+                        score += FIELD_SCORES[field];
+                        matchedIn.add(field);
+                    }
+                }
+                if (words.length > 1 && fields.name.includes(phrase)) {
+                    score += FIELD_SCORES.name * words.length;
+                }
+                if (phrase && fields.name === phrase) {
+                    score += FIELD_SCORES.name;
+                }
+                return { ...candidate, score, matchedIn: [...matchedIn] };
+            })
+            .filter((result) => result !== null)
+            .sort((a, b) => {
+                if (a.score !== b.score) {
+                    return b.score - a.score;
+                }
+                const dueA = a.card.dueDate
+                    ? new Date(a.card.dueDate).getTime()
+                    : Infinity;
+                const dueB = b.card.dueDate
+                    ? new Date(b.card.dueDate).getTime()
+                    : Infinity;
+                if (dueA !== dueB) {
+                    return dueA < dueB ? -1 : 1;
+                }
+                return new Date(b.card.updatedAt ?? b.card.createdAt).getTime() -
+                    new Date(a.card.updatedAt ?? a.card.createdAt).getTime();
+            });
+
+        return {
+            total: results.length,
+            results: results.slice(0, Math.max(0, limit)),
+            ...unreadableBoards.length > 0 ? { unreadableBoards } : {},
+            ...unreadableComments.length > 0 ? { unreadableComments } : {},
+        };
+    } catch (error) {
+        console.error("Error in searchCards:", error);
+        throw error;
+    }
+}
@@ -1,9 +1,20 @@
 import { z } from "zod";
-import { getCard, moveCard } from "../operations/cards.js";
+import { moveCard } from "../operations/cards.js";
 import { createComment } from "../operations/comments.js";
 import { getLists } from "../operations/lists.js";
-import { getBoard } from "../operations/boards.js";
-import { getTask, updateTask } from "../operations/tasks.js";
+import {
+    nestTaskLists,
+    updateTaskInTaskList,
+} from "../operations/tasks.js";
+import { PlankaTask } from "../common/types.js";
+import { CardContext, resolveCardContext } from "../common/resolver.js";
+import {
+    findStateList,
+    getActionState,
+    getBoardWorkflow,
+    getListState,
+    isTransitionAllowed,
+} from "../common/workflow.js";
 
 /**
  * Zod schema for the workflow action parameters
@@ -11,7 +22,8 @@ import { getTask, updateTask } from "../operations/tasks.js";
  * @property {string} cardId - The ID of the card to perform the action on
  * @property {string} [comment] - Optional comment to add with the action
  * @property {string[]} [taskIds] - Optional task IDs to mark as completed (for mark_completed action)
- * @property {string} [boardId] - Optional board ID (if not provided, will attempt to determine from card)
+ * @property {string[]} [taskListIds] - Optional task list IDs whose tasks should all be marked as completed (for mark_completed action)
+ * @property {string} [boardId] - Optional board ID (if not provided, the card's board is used)
  */
 export const workflowActionSchema = z.object({
     action: z.enum([
@@ -27,8 +39,11 @@ export const workflowActionSchema = z.object({
     taskIds: z.array(z.string()).optional().describe(
         "Optional task IDs to mark as completed (for mark_completed action)",
     ),
+    taskListIds: z.array(z.string()).optional().describe(
+        "Optional task list IDs whose tasks should all be marked as completed (for mark_completed action)",
+    ),
     boardId: z.string().optional().describe(
-        "Optional board ID (if not provided, will attempt to determine from card)",
+        "Optional board ID (if not provided, the card's board is used)",
     ),
 });
 
@@ -37,122 +52,149 @@ export const workflowActionSchema = z.object({
  */
 export type WorkflowActionParams = z.infer<typeof workflowActionSchema>;
 
+/**
+ * Marks tasks of a card as completed
+ *
+ * Tasks are looked up in the card's own task data, so IDs from another card
+ * are rejected before anything is changed. Tasks that are already completed
+ * are reported but not updated again.
+ *
+ * @param {CardContext} context - The resolved card
+ * @param {string[]} taskIds - IDs of individual tasks to complete
+ * @param {string[]} taskListIds - IDs of task lists whose tasks should all be completed
+ * @returns {Promise<{completed: object[], alreadyCompleted: object[]}>} The tasks that were changed and the ones that were already done
+ * @throws {Error} If no IDs are given or an ID does not belong to the card
+ */
+async function completeCardTasks(
+    context: CardContext,
+    taskIds: string[],
+    taskListIds: string[],
+) {
+    if (taskIds.length === 0 && taskListIds.length === 0) {
+        throw new Error(
+            "No task IDs or task list IDs provided for mark_completed action",
+        );
+    }
+
+    const cardId = context.card.id;
+    const cardTaskLists = nestTaskLists(cardId, context.included);
+    const cardTasks = cardTaskLists.flatMap((taskList) => taskList.tasks);
+
+    const tasksToComplete = new Map<string, PlankaTask>();
+    for (const taskListId of taskListIds) {
+        if (!cardTaskLists.some((taskList) => taskList.id === taskListId)) {
+            throw new Error(
+                `Task list ${taskListId} does not belong to card ${cardId}`,
+            );
+        }
+        for (const task of cardTasks) {
+            if (task.taskListId === taskListId) {
+                tasksToComplete.set(task.id, task);
+            }
+        }
+    }
+    for (const taskId of taskIds) {
+        const task = cardTasks.find((t) => t.id === taskId);
+        if (!task) {
+            throw new Error(`Task ${taskId} does not belong to card ${cardId}`);
+        }
+        tasksToComplete.set(task.id, task);
+    }
+
+    const completed = [];
+    const alreadyCompleted = [];
+    for (const task of tasksToComplete.values()) {
+        if (task.isCompleted) {
+            alreadyCompleted.push(task);
+        } else {
+            completed.push(
+                await updateTaskInTaskList(task.id, { isCompleted: true }),
+            );
+        }
+    }
+
+    return { completed, alreadyCompleted };
+}
+
 /**
  * Performs a workflow action on a card (start working, mark completed, move to testing, move to done)
  *
  * This function handles common workflow actions for cards in a Kanban board, including
  * moving cards between lists, marking tasks as completed, and adding comments to document progress.
+ * Target lists and allowed moves come from the board's workflow definition.
  *
  * @param {WorkflowActionParams} params - Parameters for the workflow action
  * @param {string} params.action - The workflow action to perform (start_working, mark_completed, move_to_testing, move_to_done)
  * @param {string} params.cardId - The ID of the card to perform the action on
  * @param {string} [params.comment] - Optional comment to add with the action
  * @param {string[]} [params.taskIds] - Optional task IDs to mark as completed (for mark_completed action)
- * @param {string} [params.boardId] - Optional board ID (if not provided, will attempt to determine from card)
+ * @param {string[]} [params.taskListIds] - Optional task list IDs whose tasks should all be marked as completed (for mark_completed action)
+ * @param {string} [params.boardId] - Optional board ID (if not provided, the card's board is used)
  * @returns {Promise<object>} The result of the workflow action
  * @throws {Error} If the card or board is not found, or if the action cannot be performed
  */
 export async function performWorkflowAction(params: WorkflowActionParams) {
-    const { action, cardId, comment, taskIds, boardId: providedBoardId } =
-        params;
+    const {
+        action,
+        cardId,
+        comment,
+        taskIds,
+        taskListIds,
+        boardId: providedBoardId,
+    } = params;
 
     try {
-        // Get the card details
-        const card = await getCard(cardId);
-
-        if (!card) {
-            throw new Error(`Card with ID ${cardId} not found`);
-        }
+        // Resolve the card with the board it belongs to
+        const context = await resolveCardContext(cardId);
 
-        // Use the provided boardId or try to determine it
-        let boardId = providedBoardId;
-
-        if (!boardId) {
-            // Try to get the boardId from the card response
-            // @ts-ignore - Some card responses include boardId
-            boardId = card.boardId;
-        }
-
-        if (!boardId) {
-            throw new Error(
-                `Could not determine board ID for card ${cardId}. Please provide a boardId parameter.`,
+        // Completing tasks does not move the card
+        if (action === "mark_completed") {
+            const result = await completeCardTasks(
+                context,
+                taskIds ?? [],
+                taskListIds ?? [],
             );
-        }
 
-        // Get the board
-        const board = await getBoard(boardId);
+            // Add a comment if provided
+            const newComment = comment
+                ? await createComment({ cardId, text: comment })
+                : undefined;
 
-        if (!board) {
-            throw new Error(`Board with ID ${boardId} not found`);
+            return {
+                success: true,
+                action,
+                cardId,
+                tasksCompleted: result.completed.length,
+                ...result,
+                comment: newComment,
+            };
         }
 
-        // Get all lists on the board
+        // Use the provided boardId or the card's own board
+        const boardId = providedBoardId || context.board.id;
+
+        // Get all lists on the board and the workflow that applies to it
         const boardLists = await getLists(boardId);
+        const workflow = await getBoardWorkflow(boardId);
 
-        // Find the target list based on the action
-        let targetList;
+        // Find the target state based on the action
+        let targetStateId;
         let actionComment = comment;
 
         switch (action) {
             case "start_working":
-                targetList = boardLists.find((list: any) =>
-                    list.name.toLowerCase() === "in progress"
-                );
+                targetStateId = getActionState(workflow, action);
                 actionComment = comment || "🚀 Started working on this card.";
                 break;
 
-            case "mark_completed":
-                // This action doesn't move the card, just completes tasks
-                if (taskIds && taskIds.length > 0) {
-                    // Mark all specified tasks as completed
-                    const taskUpdates = await Promise.all(
-                        taskIds.map(async (taskId) => {
-                            // First get the task to get its current properties
-                            const task = await getTask(taskId);
-
-                            // Then update it with the same properties plus isCompleted=true
-                            return updateTask(taskId, {
-                                name: task.name,
-                                position: task.position,
-                                // Use the API's method for marking as completed
-                                // The updateTask function will handle this correctly
-                            });
-                        }),
-                    );
-
-                    // Add a comment if provided
-                    if (comment) {
-                        await createComment({
-                            cardId,
-                            text: comment,
-                        });
-                    }
-
-                    return {
-                        success: true,
-                        action,
-                        cardId,
-                        tasksCompleted: taskUpdates.length,
-                    };
-                } else {
-                    throw new Error(
-                        "No task IDs provided for mark_completed action",
-                    );
-                }
-
             case "move_to_testing":
-                targetList = boardLists.find((list: any) =>
-                    list.name.toLowerCase() === "testing" ||
-                    list.name.toLowerCase() === "review"
-                );
+                targetStateId = getActionState(workflow, action);
                 actionComment = comment ||
                     "✅ Implementation completed and ready for testing.";
                 break;
 
             case "move_to_done":
-                targetList = boardLists.find((list: any) =>
-                    list.name.toLowerCase() === "done"
-                );
+                targetStateId = getActionState(workflow, action);
                 actionComment = comment ||
                     "🎉 All work completed and verified.";
                 break;
@@ -161,12 +203,36 @@ export async function performWorkflowAction(params: WorkflowActionParams) {
                 throw new Error(`Unknown action: ${action}`);
         }
 
+        const targetList = findStateList(workflow, boardLists, targetStateId);
         if (!targetList) {
-            throw new Error(`Target list not found for action: ${action}`);
+            throw new Error(
+                `Target list not found for action: ${action} (workflow state "${targetStateId}")`,
+            );
         }
 
-        // Move the card to the target list
-        const updatedCard = await moveCard(cardId, targetList.id);
+        // Enforce the workflow's allowed transitions for cards on this board
+        const currentState = boardId === context.board.id && context.list
+            ? getListState(workflow, context.list.name)
+            : undefined;
+        if (
+            currentState &&
+            !isTransitionAllowed(workflow, currentState.id, targetStateId)
+        ) {
+            throw new Error(
+                `The board workflow does not allow moving a card from "${currentState.id}" to "${targetStateId}"`,
+            );
+        }
+
+        // Move the card to the target list; Planka needs the target board
+        // to move a card onto another board
+        const updatedCard = await moveCard(
+            cardId,
+            targetList.id,
+            undefined,
+            targetList.boardId !== context.board.id
+                ? targetList.boardId
+                : undefined,
+        );
 
         // Add a comment
         const newComment = await createComment({